@@ -5,6 +5,7 @@ import { Pressable } from 'react-native';
 
 import { useClientOnlyValue } from '@/components/useClientOnlyValue';
 import { useColorScheme } from '@/components/useColorScheme';
+import { useStrings } from '@/components/useStrings';
 import Colors from '@/constants/Colors';
 
 // You can explore the built-in icon families and icons on the web at https://icons.expo.fyi/
@@ -17,6 +18,7 @@ function TabBarIcon(props: {
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const { t } = useStrings();
 
   return (
     <Tabs
@@ -29,7 +31,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="audio"
         options={{
-          title: 'Audio',
+          title: t('tab.audio'),
           tabBarIcon: ({ color }) => <TabBarIcon name="volume-up" color={color} />,
           headerRight: () => (
             <Link href="/settings" asChild>
@@ -50,7 +52,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="haptic"
         options={{
-          title: 'Haptic',
+          title: t('tab.haptic'),
           tabBarIcon: ({ color }) => <TabBarIcon name="mobile" color={color} />,
           headerRight: () => (
             <Link href="/settings" asChild>
@@ -71,7 +73,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="haptic-dynamic"
         options={{
-          title: 'Haptic Dynamic',
+          title: t('tab.haptic_dynamic'),
           tabBarIcon: ({ color }) => <TabBarIcon name="heartbeat" color={color} />,
           headerRight: () => (
             <Link href="/settings" asChild>
@@ -89,6 +91,27 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="sonification"
+        options={{
+          title: t('tab.sonification'),
+          tabBarIcon: ({ color }) => <TabBarIcon name="music" color={color} />,
+          headerRight: () => (
+            <Link href="/settings" asChild>
+              <Pressable>
+                {({ pressed }) => (
+                  <FontAwesome
+                    name="cog"
+                    size={22}
+                    color={Colors[colorScheme ?? 'light'].text}
+                    style={{ marginRight: 15, opacity: pressed ? 0.5 : 1 }}
+                  />
+                )}
+              </Pressable>
+            </Link>
+          ),
+        }}
+      />
     </Tabs>
   );
 }
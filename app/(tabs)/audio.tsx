@@ -1,76 +1,69 @@
+import SimulatorControls from '@/components/SimulatorControls';
 import { Text, View } from '@/components/Themed';
+import { useGuidance } from '@/components/useGuidance';
+import { useStrings } from '@/components/useStrings';
 import { useApp } from '@/context/AppContext';
+import { SPEECH_STYLE_LABELS, speechConfig, spokenInstruction } from '@/lib/speechInstructions';
 import { useIsFocused } from '@react-navigation/native';
-import * as Location from 'expo-location';
-import * as Speech from 'expo-speech';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { StyleSheet, TouchableOpacity } from 'react-native';
 
 export default function AudioNorthScreen() {
-  const [heading, setHeading] = useState<number | null>(null);
-  const [permission, setPermission] = useState<'granted' | 'denied' | 'undetermined'>('undetermined');
   const lastSpokenRef = useRef<number>(0);
-  const { settings } = useApp();
+  const { settings, sessions, activeSessionId, updateSession } = useApp();
   const isFocused = useIsFocused();
-
-  useEffect(() => {
-    if (!isFocused) {
-      Speech.stop();
-      setHeading(null);
+  const { locale, t, speak, stopSpeech } = useStrings();
+  const speech = useMemo(() => speechConfig(settings), [settings.speechStyle, settings.speechFacingDeg, settings.speechSlightDeg]);
+  const { heading, guidance, target, permission, positionStatus, replaying } = useGuidance(isFocused, (g) => {
+    const now = Date.now();
+    if (g.justArrived) {
+      stopSpeech();
+      speak(g.target.isFinal ? t('speech.arrived') : t('speech.reached', { name: g.target.name }), { rate: 1.0 });
+      lastSpokenRef.current = now;
       return;
     }
-    (async () => {
-      const { status } = await Location.requestForegroundPermissionsAsync();
-      setPermission(status);
-      if (status !== 'granted') return;
-      const sub = await Location.watchHeadingAsync((h) => {
-        const value = settings.useTrueNorth ? (h.trueHeading ?? h.magHeading ?? 0) : (h.magHeading ?? h.trueHeading ?? 0);
-        setHeading(value);
-      });
-      return () => sub.remove();
-    })();
-  }, [isFocused, settings.useTrueNorth]);
+    // No more direction cues once the target is reached
+    if (g.arrived) return;
+    if (now - lastSpokenRef.current < 2000) return;
+    speak(spokenInstruction(g, speech, locale), { rate: 1.0 });
+    lastSpokenRef.current = now;
+  });
+
+  useEffect(() => {
+    if (!isFocused) stopSpeech();
+  }, [isFocused]);
 
+  // Record the phrasing on the session it is used in, so phrasings can be compared afterwards.
+  const activeSession = sessions.find((s) => s.sessionId === activeSessionId && !s.endTime && s.feedbackMode === 'audio');
+  const recorded = activeSession?.speechInstructions;
   useEffect(() => {
-    if (!isFocused || heading == null) return;
-    if (settings.targetLat == null || settings.targetLon == null) return;
-    (async () => {
-      const now = Date.now();
-      if (now - lastSpokenRef.current < 2000) return;
-      const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
-      const targetBearing = bearingFromAToB(
-        pos.coords.latitude,
-        pos.coords.longitude,
-        settings.targetLat as number,
-        settings.targetLon as number
-      );
-      const angleErr = normalizeAngleDiff(heading, targetBearing);
-      const dir = angleErr > 0 ? 'right' : 'left';
-      const deg = Math.abs(Math.round(angleErr));
-      const ok = deg <= (settings.alignThresholdDeg ?? 5);
-      if (ok) {
-        Speech.speak('Facing target', { rate: 1.0 });
-        lastSpokenRef.current = now;
-      } else if (deg > (settings.alignThresholdDeg ?? 5) && deg <= 15) {
-        Speech.speak(`Turn slightly ${dir}`, { rate: 1.0 });
-        lastSpokenRef.current = now;
-      } else {
-        Speech.speak(`Turn ${dir} ${deg} degrees to face target`, { rate: 1.0 });
-        lastSpokenRef.current = now;
-      }
-    })();
-  }, [heading, settings.targetLat, settings.targetLon, settings.alignThresholdDeg, isFocused]);
+    if (!isFocused || !activeSession) return;
+    if (recorded?.style === speech.style && recorded.facingDeg === speech.facingDeg && recorded.slightDeg === speech.slightDeg) return;
+    updateSession(activeSession.sessionId, { speechInstructions: speech });
+  }, [isFocused, activeSession?.sessionId, recorded, speech, updateSession]);
 
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Audio: Face Target</Text>
-      <Text accessibilityLabel="Current heading">Heading: {heading?.toFixed(0) ?? '—'}°</Text>
-      <Text>Permission: {permission}</Text>
+      <Text style={styles.title}>{t('audio.title')}</Text>
+      <Text accessibilityLabel="Current heading">{t('guidance.heading', { deg: heading?.toFixed(0) ?? '—' })}</Text>
+      <Text accessibilityLabel="Distance to target">
+        {t('guidance.distance', { distance: guidance ? `${guidance.distanceMeters.toFixed(1)} m` : '—' })}{guidance?.arrived ? ` ${t('guidance.arrived')}` : ''}
+      </Text>
+      <Text>{t('audio.phrasing', { style: SPEECH_STYLE_LABELS[speech.style] })}</Text>
+      <Text>{t('guidance.permission', { status: permission })}</Text>
+      <Text>{t('guidance.gps', { status: positionStatus })}</Text>
+      {replaying ? <Text>{t('guidance.replaying')}</Text> : null}
       <View style={{ height: 16 }} />
-      <Button text="Repeat instruction" onPress={() => Speech.speak('Face the target. Turn until you hear Facing target.')} />
-      {settings.targetLat == null || settings.targetLon == null ? (
-        <Text>Set a target in Settings to enable guidance.</Text>
-      ) : null}
+      <Button
+        text={t('audio.repeat')}
+        onPress={() => speak(t('speech.repeat_prompt', { phrase: spokenInstruction({ direction: 'right', errorDeg: 0 }, speech, locale) }))}
+      />
+      {target ? (
+        <Text>{t('guidance.waypoint', { index: target.index + 1, total: settings.route.length, name: target.name })}</Text>
+      ) : (
+        <Text>{t('guidance.no_route')}</Text>
+      )}
+      {settings.sensorSource === 'simulated' && !replaying ? <SimulatorControls /> : null}
     </View>
   );
 }
@@ -83,25 +76,6 @@ function Button({ text, onPress }: { text: string; onPress: () => void }) {
   );
 }
 
-function normalizeAngleDiff(currentDeg: number, targetDeg: number): number {
-  let diff = targetDeg - currentDeg; // positive => need to turn right (clockwise)
-  while (diff > 180) diff -= 360;
-  while (diff < -180) diff += 360;
-  return diff;
-}
-
-function bearingFromAToB(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const toRad = (d: number) => (d * Math.PI) / 180;
-  const toDeg = (r: number) => (r * 180) / Math.PI;
-  const φ1 = toRad(lat1);
-  const φ2 = toRad(lat2);
-  const Δλ = toRad(lon2 - lon1);
-  const y = Math.sin(Δλ) * Math.cos(φ2);
-  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
-  const θ = Math.atan2(y, x);
-  return (toDeg(θ) + 360) % 360;
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
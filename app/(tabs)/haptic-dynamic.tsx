@@ -1,153 +1,102 @@
+import SimulatorControls from '@/components/SimulatorControls';
 import { Text, View } from '@/components/Themed';
+import { useGuidance } from '@/components/useGuidance';
+import { useStrings } from '@/components/useStrings';
+import { useHapticPlayer } from '@/components/useHapticPlayer';
 import { useApp } from '@/context/AppContext';
+import { GuidanceState } from '@/lib/guidance';
+import { directionalPulse } from '@/lib/hapticPatterns';
 import { useIsFocused } from '@react-navigation/native';
-import * as Haptics from 'expo-haptics';
-import * as Location from 'expo-location';
-import React, { useEffect, useRef, useState } from 'react';
-import { StyleSheet, Vibration } from 'react-native';
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet } from 'react-native';
 
 export default function HapticDynamicNorthScreen() {
-  const [heading, setHeading] = useState<number | null>(null);
-  const [permission, setPermission] = useState<'granted' | 'denied' | 'undetermined'>('undetermined');
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const headingRef = useRef<number | null>(null);
+  const guidanceRef = useRef<GuidanceState | null>(null);
+  const lastPulseRef = useRef<number>(0);
+  const vibratingRef = useRef<boolean>(false);
   const { settings } = useApp();
   const isFocused = useIsFocused();
-
-  useEffect(() => {
-    if (!isFocused) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      return;
+  const { t } = useStrings();
+  const haptics = useHapticPlayer();
+  const { heading, guidance, target, permission, positionStatus, replaying } = useGuidance(isFocused, (g) => {
+    guidanceRef.current = g;
+    if (g.justArrived) {
+      vibratingRef.current = false;
+      haptics.play(g.target.isFinal ? 'arrival' : 'waypoint');
     }
-    (async () => {
-      const { status } = await Location.requestForegroundPermissionsAsync();
-      setPermission(status);
-      if (status !== 'granted') return;
-      const sub = await Location.watchHeadingAsync((h) => {
-        const value = settings.useTrueNorth ? (h.trueHeading ?? h.magHeading ?? 0) : (h.magHeading ?? h.trueHeading ?? 0);
-        headingRef.current = value;
-        setHeading(value);
-      });
-      return () => sub.remove();
-    })();
-  }, [isFocused, settings.useTrueNorth]);
+  });
 
-  const lastPulseRef = useRef<number>(0);
-  const vibratingRef = useRef<boolean>(false);
   useEffect(() => {
     if (intervalRef.current) {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
+    guidanceRef.current = null;
     if (!isFocused) {
       if (vibratingRef.current) {
-        Vibration.cancel();
+        haptics.stop();
         vibratingRef.current = false;
       }
       return;
     }
+    // Pulses keep coming while the participant stands still, so render on a timer
+    // from the latest guidance state rather than only when a new state arrives.
     intervalRef.current = setInterval(() => {
-      const h = headingRef.current;
-      if (h == null) return;
-      if (settings.targetLat == null || settings.targetLon == null) return;
-      (async () => {
-        const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
-        const targetBearing = bearingFromAToB(
-          pos.coords.latitude,
-          pos.coords.longitude,
-          settings.targetLat as number,
-          settings.targetLon as number
-        );
-        const angleErr = normalizeAngleDiff(h, targetBearing); // + => turn right, - => left
-        const absErr = Math.abs(angleErr);
-        const threshold = settings.alignThresholdDeg ?? 10;
-
-        // When aligned: continuous vibration like static haptic screen
-        if (absErr <= threshold) {
-          if (!vibratingRef.current) {
-            Vibration.vibrate([0, 200, 50], true);
-            vibratingRef.current = true;
-          }
-          return;
+      const g = guidanceRef.current;
+      // No more direction cues once the target is reached
+      if (g == null || g.arrived) return;
+      // When aligned: continuous vibration like static haptic screen
+      if (g.aligned) {
+        if (!vibratingRef.current) {
+          haptics.play('aligned');
+          vibratingRef.current = true;
         }
+        return;
+      }
 
-        // Not aligned: ensure continuous vibration is off
-        if (vibratingRef.current) {
-          Vibration.cancel();
-          vibratingRef.current = false;
-        }
+      // Not aligned: ensure continuous vibration is off
+      if (vibratingRef.current) {
+        haptics.stop();
+        vibratingRef.current = false;
+      }
 
-        // Direction-coded pulsing: double pulse if need to turn right, single pulse if left
-        // Closer => smaller interval (higher frequency)
-        const frequencyMs = mapRange(absErr, 0, 180, 200, 1200);
-        const style = absErr < 10 ? Haptics.ImpactFeedbackStyle.Heavy : absErr < 30 ? Haptics.ImpactFeedbackStyle.Medium : Haptics.ImpactFeedbackStyle.Light;
-        const now = Date.now();
-        if (now - lastPulseRef.current >= frequencyMs) {
-          if (angleErr > 0) {
-            // Right: double pulse
-            Haptics.impactAsync(style);
-            setTimeout(() => {
-              Haptics.impactAsync(style);
-            }, 120);
-          } else {
-            // Left: single pulse
-            Haptics.impactAsync(style);
-          }
-          lastPulseRef.current = now;
-        }
-      })();
+      const { name, intervalMs } = directionalPulse(g.errorDeg, settings.hapticPatterns);
+      const now = Date.now();
+      if (now - lastPulseRef.current >= intervalMs) {
+        haptics.play(name);
+        lastPulseRef.current = now;
+      }
     }, 100);
 
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
       if (vibratingRef.current) {
-        Vibration.cancel();
+        haptics.stop();
         vibratingRef.current = false;
       }
     };
-  }, [isFocused, settings.alignThresholdDeg]);
+  }, [isFocused, settings.hapticPatterns, haptics.play, haptics.stop]);
 
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Haptic Dynamic: Face Target</Text>
-      <Text>Heading: {heading?.toFixed(0) ?? '—'}°</Text>
-      <Text>Closer to target → stronger and faster pulses.</Text>
-      <Text>Permission: {permission}</Text>
-      {settings.targetLat == null || settings.targetLon == null ? (
-        <Text>Set a target in Settings to enable guidance.</Text>
-      ) : null}
+      <Text style={styles.title}>{t('haptic_dynamic.title')}</Text>
+      <Text>{t('guidance.heading', { deg: heading?.toFixed(0) ?? '—' })}</Text>
+      <Text>{t('guidance.distance', { distance: guidance ? `${guidance.distanceMeters.toFixed(1)} m` : '—' })}{guidance?.arrived ? ` ${t('guidance.arrived')}` : ''}</Text>
+      <Text>{t('haptic_dynamic.hint')}</Text>
+      <Text>{t('guidance.permission', { status: permission })}</Text>
+      <Text>{t('guidance.gps', { status: positionStatus })}</Text>
+      {replaying ? <Text>{t('guidance.replaying')}</Text> : null}
+      {target ? (
+        <Text>{t('guidance.waypoint', { index: target.index + 1, total: settings.route.length, name: target.name })}</Text>
+      ) : (
+        <Text>{t('guidance.no_route')}</Text>
+      )}
+      {settings.sensorSource === 'simulated' && !replaying ? <SimulatorControls /> : null}
     </View>
   );
 }
 
-function normalizeAngleDiff(currentDeg: number, targetDeg: number): number {
-  let diff = targetDeg - currentDeg;
-  while (diff > 180) diff -= 360;
-  while (diff < -180) diff += 360;
-  return diff;
-}
-
-function mapRange(value: number, inMin: number, inMax: number, outMin: number, outMax: number): number {
-  const clamped = Math.max(inMin, Math.min(inMax, value));
-  const norm = (clamped - inMin) / (inMax - inMin);
-  return outMin + norm * (outMax - outMin);
-}
-
-function bearingFromAToB(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const toRad = (d: number) => (d * Math.PI) / 180;
-  const toDeg = (r: number) => (r * 180) / Math.PI;
-  const φ1 = toRad(lat1);
-  const φ2 = toRad(lat2);
-  const Δλ = toRad(lon2 - lon1);
-  const y = Math.sin(Δλ) * Math.cos(φ2);
-  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
-  const θ = Math.atan2(y, x);
-  return (toDeg(θ) + 360) % 360;
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
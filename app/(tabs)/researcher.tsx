@@ -1,31 +1,103 @@
+import ParticipantPicker from '@/components/ParticipantPicker';
 import { Text, View } from '@/components/Themed';
+import { useProtocol } from '@/components/useProtocol';
+import { useRemoteStatus } from '@/components/useRemote';
+import { useSyncStatus } from '@/components/useSync';
 import { FeedbackMode, useApp } from '@/context/AppContext';
+import { assignConditionOrder, nextCondition } from '@/lib/counterbalancing';
+import { describeParticipant } from '@/lib/participants';
+import { currentStep, FEEDBACK_MODE_ROUTES, PROTOCOL_STEP_LABELS } from '@/lib/protocol';
+import { SyncKind } from '@/lib/sync';
 import { useRouter } from 'expo-router';
-import React, { useMemo, useState } from 'react';
-import { StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
 
 export default function ResearcherScreen() {
   const router = useRouter();
-  const { participants, sessions, exportCsv } = useApp();
-  const [selectedParticipantId, setSelectedParticipantId] = useState<string | undefined>(participants[0]?.participantId);
+  const { participants, sessions, surveys, settings, protocolRuns, activeSessionId, loadFailed, setReplaySessionId, updateParticipant } = useApp();
+  const { activeRun, startRun } = useProtocol();
+  const sync = useSyncStatus();
+  const remote = useRemoteStatus();
+  const activeParticipantId = sessions.find((s) => s.sessionId === activeSessionId)?.participantId;
+  const [selectedParticipantId, setSelectedParticipantId] = useState<string | undefined>(activeParticipantId ?? participants[0]?.participantId);
+  const selectedParticipant = participants.find((p) => p.participantId === selectedParticipantId);
   const [mode, setMode] = useState<FeedbackMode>('audio');
+  const next = selectedParticipant ? nextCondition(selectedParticipant, sessions) : null;
+
+  // Follow the participant's assigned order unless the researcher picks a mode explicitly.
+  useEffect(() => {
+    if (next) setMode(next.mode);
+  }, [selectedParticipantId, next?.mode]);
 
   const inProgress = useMemo(() => sessions.filter((s) => !s.endTime), [sessions]);
+  const traced = useMemo(() => sessions.filter((s) => s.hasSensorTrace), [sessions]);
+  const records = useMemo(
+    () => [
+      ...participants.map((p) => ({ kind: 'participant' as SyncKind, id: p.participantId })),
+      ...sessions.map((s) => ({ kind: 'session' as SyncKind, id: s.sessionId })),
+      ...surveys.map((r) => ({ kind: 'survey' as SyncKind, id: r.responseId })),
+    ],
+    [participants, sessions, surveys]
+  );
+  const unsynced = records.filter((r) => sync.status(r.kind, r.id)?.state !== 'synced');
+  const interrupted = protocolRuns.filter((r) => !r.completedAt && r.runId !== activeRun?.runId).length;
 
   return (
-    <View style={styles.container}>
+    <ScrollView contentContainerStyle={styles.container}>
       <Text style={styles.title}>Navigation Study Control Panel</Text>
+      {loadFailed ? (
+        <Text style={styles.error}>
+          Saved study data could not be loaded. Changes made now are not saved; restart the app to try loading it again.
+        </Text>
+      ) : null}
       <View style={styles.block}>
         <Text style={styles.label}>Participant</Text>
+        <Text>{selectedParticipant ? `Selected: ${describeParticipant(selectedParticipant)}` : 'No participant selected.'}</Text>
+        <ParticipantPicker participants={participants} selectedId={selectedParticipantId} onSelect={(p) => setSelectedParticipantId(p.participantId)} />
         <View style={styles.row}>
-          {participants.length === 0 ? (
-            <Text>No participants. Create one.</Text>
+          <Button
+            onPress={() => router.push(selectedParticipantId ? { pathname: '/session/new', params: { participantId: selectedParticipantId } } : '/session/new')}
+            text="New Session"
+          />
+          {selectedParticipantId ? (
+            <Button onPress={() => router.push({ pathname: '/participants/[participantId]', params: { participantId: selectedParticipantId } })} text="Edit" />
+          ) : null}
+          <Button onPress={() => router.push('/participants')} text="Manage Participants" />
+        </View>
+        <Text style={{ marginTop: 8 }}>Active session: {activeSessionId ?? 'none'}</Text>
+      </View>
+
+      {selectedParticipant ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>Condition Order</Text>
+          {selectedParticipant.conditionOrder ? (
+            <>
+              <Text>
+                {selectedParticipant.conditionOrder.map((m) => m.replace('_', ' ')).join(' → ')} (row {(selectedParticipant.counterbalanceRow ?? 0) + 1})
+              </Text>
+              <Text>
+                {next
+                  ? `Next condition: ${next.mode.replace('_', ' ')} (${next.position + 1} of ${selectedParticipant.conditionOrder.length})`
+                  : 'All conditions have been run.'}
+              </Text>
+              {next ? (
+                <Button
+                  onPress={() => startRun(selectedParticipant.participantId, next.mode)}
+                  text="Start Next Condition"
+                />
+              ) : null}
+            </>
           ) : (
-            <Text>{selectedParticipantId ?? 'Select'}</Text>
+            <>
+              <Text>No order assigned (participant created before counterbalancing).</Text>
+              <Button
+                onPress={() => updateParticipant(selectedParticipant.participantId, assignConditionOrder(settings.studyConditions, participants))}
+                text="Assign Order"
+              />
+            </>
           )}
-          <Button onPress={() => router.push('/session/new')} text="New Session" />
         </View>
-      </View>
+      ) : null}
 
       <View style={styles.block}>
         <Text style={styles.label}>Feedback Mode</Text>
@@ -33,28 +105,120 @@ export default function ResearcherScreen() {
           <ModeButton current={mode} value="audio" onSelect={setMode} />
           <ModeButton current={mode} value="static_haptic" onSelect={setMode} />
           <ModeButton current={mode} value="dynamic_haptic" onSelect={setMode} />
+          <ModeButton current={mode} value="sonification" onSelect={setMode} />
         </View>
+        <View style={{ height: 8 }} />
+        <Button
+          onPress={() => {
+            if (!selectedParticipantId) {
+              alert('Create a participant before training.');
+              return;
+            }
+            router.push({ pathname: '/training', params: { participantId: selectedParticipantId, mode } });
+          }}
+          text="Cue Training"
+        />
       </View>
 
       <View style={styles.block}>
-        <Button onPress={() => router.push('/stages/red-dot')} text="Start Red Dot Task" />
+        <Text style={styles.label}>Protocol</Text>
+        {activeRun ? (
+          <Text>
+            In progress: {activeRun.participantId.slice(0, 8)} · {activeRun.feedbackMode.replace('_', ' ')} · at{' '}
+            {PROTOCOL_STEP_LABELS[currentStep(activeRun)?.step ?? 'survey']}
+          </Text>
+        ) : (
+          <Text>Steps: {settings.protocolSteps.map((s) => PROTOCOL_STEP_LABELS[s]).join(' → ')}</Text>
+        )}
+        {interrupted > 0 ? <Text>{interrupted} interrupted run(s) can be resumed.</Text> : null}
         <View style={{ height: 8 }} />
-        <Button onPress={() => router.push('/break')} text="Start 5-Min Break" />
-        <View style={{ height: 8 }} />
-        <Button onPress={() => router.push('/stages/object-search')} text="Start Object Search" />
+        <View style={styles.row}>
+          <Button
+            onPress={() => {
+              if (!selectedParticipantId) {
+                alert('Select a participant first.');
+                return;
+              }
+              startRun(selectedParticipantId, mode);
+            }}
+            text="Start Protocol"
+          />
+          <Button onPress={() => router.push('/protocol')} text="Open Protocol" />
+        </View>
       </View>
 
       <View style={styles.block}>
-        <Button
-          onPress={async () => {
-            const csv = await exportCsv();
-            console.log(csv);
-            alert('CSV generated in console output');
-          }}
-          text="Export CSV"
-        />
+        <View style={styles.row}>
+          <Button onPress={() => router.push('/export')} text="Export Data" />
+          <Button onPress={() => router.push('/dataset')} text="Backup & Merge" />
+          <Button onPress={() => router.push('/analytics')} text="Study Summary" />
+        </View>
+      </View>
+
+      <View style={styles.block}>
+        <Text style={styles.label}>Remote Control</Text>
+        <Text>
+          {remote.role === 'off'
+            ? 'Off'
+            : `${remote.role === 'console' ? 'Console' : 'Participant device'} · relay ${remote.socket === 'open' ? 'connected' : 'not connected'} · ${remote.peerConnected ? 'paired' : 'not paired'}`}
+        </Text>
+        <View style={styles.row}>
+          <Button onPress={() => router.push('/remote')} text="Remote Control" />
+          <Button onPress={() => router.push('/monitor')} text="Trial Monitor" />
+        </View>
       </View>
-    </View>
+
+      <View style={styles.block}>
+        <Text style={styles.label}>Sync</Text>
+        {sync.enabled ? (
+          <>
+            <Text>
+              {records.length - unsynced.length} of {records.length} records synced
+              {sync.sending ? ' · sending…' : ''}
+            </Text>
+            {sync.lastSyncedAt ? <Text>Last upload: {new Date(sync.lastSyncedAt).toLocaleTimeString()}</Text> : null}
+            {sync.failed > 0 ? <Text>{sync.failed} failing: {sync.lastError}</Text> : null}
+            {unsynced.slice(0, 10).map((r) => {
+              const status = sync.status(r.kind, r.id);
+              return (
+                <Text key={`${r.kind}:${r.id}`}>
+                  {r.kind} {r.id.slice(0, 8)} ·{' '}
+                  {!status || status.state === 'synced'
+                    ? 'not queued'
+                    : status.state === 'failed'
+                      ? `failed ${status.attempts}×, retry at ${new Date(status.nextAttemptAt).toLocaleTimeString()}`
+                      : 'pending'}
+                </Text>
+              );
+            })}
+            {unsynced.length > 10 ? <Text>…and {unsynced.length - 10} more</Text> : null}
+            <View style={{ height: 8 }} />
+            <Button onPress={sync.syncNow} text="Sync Now" />
+          </>
+        ) : (
+          <Text>Uploads are off. Set a study server in Settings to sync records.</Text>
+        )}
+      </View>
+
+      <View style={styles.block}>
+        <Text style={styles.label}>Sensor Traces</Text>
+        {traced.length === 0 ? <Text>No traces recorded yet.</Text> : null}
+        {traced.map((s) => (
+          <View key={s.sessionId} style={[styles.row, { justifyContent: 'space-between', marginTop: 8 }]}>
+            <Text>
+              {s.sessionId.slice(0, 8)} · {s.feedbackMode.replace('_', ' ')}
+            </Text>
+            <Button
+              onPress={() => {
+                setReplaySessionId(s.sessionId);
+                router.push(FEEDBACK_MODE_ROUTES[s.feedbackMode]);
+              }}
+              text="Replay"
+            />
+          </View>
+        ))}
+      </View>
+    </ScrollView>
   );
 }
 
@@ -76,8 +240,12 @@ function Button({ text, onPress }: { text: string; onPress: () => void }) {
 }
 
 const styles = StyleSheet.create({
+  error: {
+    color: '#dc2626',
+    fontWeight: '600',
+  },
   container: {
-    flex: 1,
+    flexGrow: 1,
     padding: 16,
     gap: 12,
   },
@@ -98,6 +266,7 @@ const styles = StyleSheet.create({
   row: {
     flexDirection: 'row',
     alignItems: 'center',
+    flexWrap: 'wrap',
     gap: 12,
   },
   chip: {
@@ -0,0 +1,73 @@
+import SimulatorControls from '@/components/SimulatorControls';
+import { Text, View } from '@/components/Themed';
+import { useGuidance } from '@/components/useGuidance';
+import { useStrings } from '@/components/useStrings';
+import { useApp } from '@/context/AppContext';
+import { GuidanceState } from '@/lib/guidance';
+import { createSonifier, Sonifier } from '@/lib/sonification';
+import { useIsFocused } from '@react-navigation/native';
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+
+export default function SonificationScreen() {
+  const sonifierRef = useRef<Sonifier | null>(null);
+  const guidanceRef = useRef<GuidanceState | null>(null);
+  const { settings } = useApp();
+  const isFocused = useIsFocused();
+  const { t } = useStrings();
+  const { heading, guidance, target, permission, positionStatus, replaying } = useGuidance(isFocused, (g) => {
+    guidanceRef.current = g;
+    if (g.justArrived) {
+      sonifierRef.current?.silence();
+      sonifierRef.current?.chime(g.target.isFinal ? [1047, 1319, 1568, 2093] : [1047, 1568]);
+    }
+  });
+
+  useEffect(() => {
+    guidanceRef.current = null;
+    if (!isFocused) return;
+    const sonifier = createSonifier();
+    sonifierRef.current = sonifier;
+    // Same 100 ms render loop as the dynamic haptic screen, so beeps keep their rhythm
+    // while the participant stands still.
+    const interval = setInterval(() => {
+      const g = guidanceRef.current;
+      if (g) sonifier.update(g);
+    }, 100);
+    return () => {
+      clearInterval(interval);
+      sonifierRef.current = null;
+      sonifier.close();
+    };
+  }, [isFocused]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('sonification.title')}</Text>
+      <Text>{t('guidance.heading', { deg: heading?.toFixed(0) ?? '—' })}</Text>
+      <Text>{t('guidance.distance', { distance: guidance ? `${guidance.distanceMeters.toFixed(1)} m` : '—' })}{guidance?.arrived ? ` ${t('guidance.arrived')}` : ''}</Text>
+      <Text>{t('sonification.hint')}</Text>
+      <Text>{t('guidance.permission', { status: permission })}</Text>
+      <Text>{t('guidance.gps', { status: positionStatus })}</Text>
+      {replaying ? <Text>{t('guidance.replaying')}</Text> : null}
+      {target ? (
+        <Text>{t('guidance.waypoint', { index: target.index + 1, total: settings.route.length, name: target.name })}</Text>
+      ) : (
+        <Text>{t('guidance.no_route')}</Text>
+      )}
+      {settings.sensorSource === 'simulated' && !replaying ? <SimulatorControls /> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+});
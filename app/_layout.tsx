@@ -7,6 +7,9 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/components/useColorScheme';
+import { useRemoteLink } from '@/components/useRemote';
+import { useSearchTimeLimit } from '@/components/useStageActions';
+import { useSyncUploader } from '@/components/useSync';
 import { AppProvider, useApp } from '@/context/AppContext';
 import { usePathname, useRouter } from 'expo-router';
 
@@ -54,6 +57,9 @@ function RootLayoutNav() {
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <AppProvider>
         <CalibrationGate />
+        <SyncGate />
+        <RemoteGate />
+        <SearchLimitGate />
         <Stack>
           <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
           <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
@@ -62,6 +68,16 @@ function RootLayoutNav() {
           <Stack.Screen name="stages/object-search" options={{ title: 'Object Search' }} />
           <Stack.Screen name="survey" options={{ title: 'Post-Task Survey' }} />
           <Stack.Screen name="session/new" options={{ title: 'New Session' }} />
+          <Stack.Screen name="protocol" options={{ title: 'Study Protocol' }} />
+          <Stack.Screen name="export" options={{ title: 'Export Data' }} />
+          <Stack.Screen name="dataset" options={{ title: 'Backup & Merge' }} />
+          <Stack.Screen name="analytics" options={{ title: 'Study Summary' }} />
+          <Stack.Screen name="remote" options={{ title: 'Researcher Console' }} />
+          <Stack.Screen name="monitor" options={{ title: 'Trial Monitor' }} />
+          <Stack.Screen name="haptic-patterns" options={{ title: 'Haptic Patterns' }} />
+          <Stack.Screen name="training" options={{ title: 'Cue Training' }} />
+          <Stack.Screen name="participants/index" options={{ title: 'Participants' }} />
+          <Stack.Screen name="participants/[participantId]" options={{ title: 'Participant' }} />
         </Stack>
       </AppProvider>
     </ThemeProvider>
@@ -75,11 +91,28 @@ function CalibrationGate() {
   useEffect(() => {
     if (settings.hasCalibrated) return;
     if (settings.calibrationPrompted) return;
+    // There is no compass to calibrate when the simulator stands in for the sensors.
+    if (settings.sensorSource === 'simulated') return;
     if (pathname === '/modal') return;
     // Mark as prompted to avoid multiple navigations across renders
     updateSettings({ calibrationPrompted: true });
     // Use navigate to avoid stacking duplicates
     router.navigate('/modal');
-  }, [settings.hasCalibrated, settings.calibrationPrompted, pathname]);
+  }, [settings.hasCalibrated, settings.calibrationPrompted, settings.sensorSource, pathname]);
+  return null;
+}
+
+function SyncGate() {
+  useSyncUploader();
+  return null;
+}
+
+function RemoteGate() {
+  useRemoteLink();
+  return null;
+}
+
+function SearchLimitGate() {
+  useSearchTimeLimit();
   return null;
 }
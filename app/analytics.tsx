@@ -0,0 +1,172 @@
+import { Text, View } from '@/components/Themed';
+import { useApp } from '@/context/AppContext';
+import { PairedComparison, SESSION_MEASURES, Stats, summarize, SURVEY_MEASURES } from '@/lib/analytics';
+import { sessionMatches } from '@/lib/csvExport';
+import { PROTOCOL_STEP_LABELS } from '@/lib/protocol';
+import React, { useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+type Range = 'today' | 'all';
+
+const MEASURE_LABELS: Record<PairedComparison['measure'], string> = Object.fromEntries(
+  [...SESSION_MEASURES, ...SURVEY_MEASURES].map((m) => [m.key, m.label])
+) as Record<PairedComparison['measure'], string>;
+
+// Quick descriptive look at finished sessions without exporting. Not a substitute for the
+// analysis proper: no p-values, and incomplete sessions count as recorded.
+export default function AnalyticsScreen() {
+  const { sessions, surveys } = useApp();
+  const [range, setRange] = useState<Range>('today');
+  const [measure, setMeasure] = useState<PairedComparison['measure']>('completionTimeSeconds');
+
+  const summary = useMemo(() => {
+    const startOfDay = new Date().setHours(0, 0, 0, 0);
+    const included = range === 'today' ? sessions.filter((s) => sessionMatches(s, { from: startOfDay })) : sessions;
+    return summarize(included, surveys);
+  }, [sessions, surveys, range]);
+  const comparisons = summary.comparisons.filter((c) => c.measure === measure);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Study Summary</Text>
+      <View style={styles.row}>
+        <Chip text="Today" selected={range === 'today'} onPress={() => setRange('today')} />
+        <Chip text="All Sessions" selected={range === 'all'} onPress={() => setRange('all')} />
+      </View>
+      <Text style={styles.hint}>Finished sessions only. Values are mean / median / SD (n).</Text>
+
+      <Text style={styles.section}>By Mode and Stage</Text>
+      {summary.groups.length === 0 ? <Text>No finished sessions.</Text> : null}
+      {summary.groups.map((g) => (
+        <View key={`${g.feedbackMode}:${g.stage}`} style={styles.block}>
+          <Text style={styles.label}>
+            {formatMode(g.feedbackMode)} · {PROTOCOL_STEP_LABELS[g.stage]}
+          </Text>
+          <Text>
+            {g.sessions} session{g.sessions === 1 ? '' : 's'} · {Math.round(g.successRate * 100)}% {g.stage === 'object_search' ? 'found all objects' : 'completed'}
+          </Text>
+          {SESSION_MEASURES.filter((m) => m.stage === g.stage).map((m) => (
+            <Text key={m.key}>
+              {m.label}: {formatStats(g.measures[m.key])}
+            </Text>
+          ))}
+        </View>
+      ))}
+
+      <Text style={styles.section}>Survey by Mode</Text>
+      {summary.surveys.length === 0 ? <Text>No survey responses.</Text> : null}
+      {summary.surveys.map((s) => (
+        <View key={s.feedbackMode} style={styles.block}>
+          <Text style={styles.label}>
+            {formatMode(s.feedbackMode)} · {s.responses} response{s.responses === 1 ? '' : 's'}
+          </Text>
+          {SURVEY_MEASURES.map((m) => (
+            <Text key={m.key}>
+              {m.label}: {formatStats(s.measures[m.key])}
+            </Text>
+          ))}
+        </View>
+      ))}
+
+      <Text style={styles.section}>Paired Comparisons</Text>
+      <View style={styles.row}>
+        {[...SESSION_MEASURES, ...SURVEY_MEASURES].map((m) => (
+          <Chip key={m.key} text={m.label} selected={measure === m.key} onPress={() => setMeasure(m.key)} />
+        ))}
+      </View>
+      <Text style={styles.hint}>Each participant's mean per mode; difference is the second mode minus the first.</Text>
+      {comparisons.length === 0 ? <Text>No participant has {MEASURE_LABELS[measure].toLowerCase()} in two modes yet.</Text> : null}
+      {comparisons.map((c) => (
+        <View key={`${c.modeA}:${c.modeB}`} style={styles.block}>
+          <Text style={styles.label}>
+            {formatMode(c.modeB)} − {formatMode(c.modeA)}
+          </Text>
+          <Text>
+            Difference: {formatStats(c.diff)}
+            {c.t != null ? ` · t(${c.diff.n - 1}) = ${c.t.toFixed(2)}` : ''}
+          </Text>
+          {c.participants.map((p) => (
+            <Text key={p.participantId} style={styles.hint}>
+              {p.participantId.slice(0, 8)}: {formatNumber(p.a)} → {formatNumber(p.b)} ({p.diff > 0 ? '+' : ''}
+              {formatNumber(p.diff)})
+            </Text>
+          ))}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+function formatMode(mode: string): string {
+  return mode.replace('_', ' ');
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function formatStats(stats: Stats | undefined): string {
+  if (!stats) return 'no data';
+  return `${formatNumber(stats.mean)} / ${formatNumber(stats.median)} / ${stats.sd != null ? formatNumber(stats.sd) : '–'} (${stats.n})`;
+}
+
+function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  section: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 4,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontSize: 14,
+  },
+});
@@ -1,37 +1,49 @@
 import { Text, View } from '@/components/Themed';
-import React, { useEffect, useRef, useState } from 'react';
-import { StyleSheet } from 'react-native';
+import { useProtocol } from '@/components/useProtocol';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
 
 const FIVE_MIN = 5 * 60;
 
 export default function BreakTimer() {
-  const [remaining, setRemaining] = useState(FIVE_MIN);
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const { current, completeStep } = useProtocol();
+  const inRun = current?.step === 'break';
+  // In a protocol run the break counts from when the step began, so leaving the screen does not reset it.
+  const [mountedAt] = useState(Date.now());
+  const startedAt = inRun && current.startedAt ? current.startedAt : mountedAt;
+  const [now, setNow] = useState(Date.now());
+  const remaining = Math.max(0, FIVE_MIN - Math.floor((now - startedAt) / 1000));
 
   useEffect(() => {
-    timerRef.current = setInterval(() => {
-      setRemaining((r) => Math.max(0, r - 1));
-    }, 1000);
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
   }, []);
 
+  const finished = remaining === 0;
   useEffect(() => {
-    if (remaining === 0) {
+    if (finished) {
       // TODO: Notify researcher; for now, use alert
       alert('Break finished. Please return to the test area.');
     }
-  }, [remaining]);
+  }, [finished]);
 
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Break</Text>
       <Text>Remaining: {formatSeconds(remaining)}</Text>
+      {inRun ? <Button text={finished ? 'Continue' : 'End Break'} onPress={() => completeStep('break')} /> : null}
     </View>
   );
 }
 
+function Button({ text, onPress }: { text: string; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.button} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
 function formatSeconds(total: number): string {
   const m = Math.floor(total / 60).toString().padStart(2, '0');
   const s = Math.floor(total % 60).toString().padStart(2, '0');
@@ -50,6 +62,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 8,
   },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
 });
-
-
@@ -0,0 +1,227 @@
+import { Text, View } from '@/components/Themed';
+import { useApp } from '@/context/AppContext';
+import {
+  applyMerge,
+  buildDataset,
+  conflictKey,
+  DatasetFile,
+  MergeConflict,
+  MergePlan,
+  parseDataset,
+  planMerge,
+  Resolution,
+} from '@/lib/dataset';
+import { shareFile } from '@/lib/shareFile';
+import * as DocumentPicker from 'expo-document-picker';
+import { Directory, File, Paths } from 'expo-file-system';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+type PendingImport = { name: string; dataset: DatasetFile; plan: MergePlan };
+
+// Backs up the whole study as JSON and merges in files exported from other phones.
+export default function DatasetScreen() {
+  const { participants, sessions, surveys, settings, importRecords } = useApp();
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const local = { participants, sessions, surveys, settings };
+
+  const exportJson = async () => {
+    const now = Date.now();
+    try {
+      const dir = new Directory(Paths.document, 'exports');
+      dir.create({ intermediates: true, idempotent: true });
+      const file = new File(dir, `dataset-${new Date(now).toISOString().replace(/[:.]/g, '-')}.json`);
+      file.create({ overwrite: true });
+      file.write(JSON.stringify(buildDataset(local, now)));
+      await shareFile(file, 'application/json');
+    } catch (e) {
+      console.warn('Dataset export failed', e);
+      alert('Export failed. See the console for details.');
+    }
+  };
+
+  const pickImport = async () => {
+    const result = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+    if (result.canceled) return;
+    const asset = result.assets[0];
+    let text: string;
+    try {
+      text = await new File(asset.uri).text();
+    } catch (e) {
+      console.warn('Could not read dataset', e);
+      alert('Could not read the selected file.');
+      return;
+    }
+    const parsed = parseDataset(text);
+    if (!parsed.ok) {
+      alert(parsed.error);
+      return;
+    }
+    setPending({ name: asset.name, dataset: parsed.dataset, plan: planMerge(local, parsed.dataset.data) });
+    setResolutions({});
+  };
+
+  const apply = () => {
+    if (!pending) return;
+    // Re-plan against the current records in case anything changed while the researcher was deciding.
+    const plan = planMerge(local, pending.dataset.data);
+    importRecords(applyMerge(local, plan, resolutions));
+    const added = plan.added.participants.length + plan.added.sessions.length + plan.added.surveys.length;
+    alert(`Imported ${added} new record(s); ${plan.conflicts.length} conflict(s) resolved.`);
+    setPending(null);
+  };
+
+  const resolveAll = (choice: Resolution) => {
+    if (!pending) return;
+    setResolutions(Object.fromEntries(pending.plan.conflicts.map((c) => [conflictKey(c), choice])));
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Backup & Merge</Text>
+      <View style={styles.block}>
+        <Text>
+          {participants.length} participants · {sessions.length} sessions · {surveys.length} surveys on this device
+        </Text>
+        <Button text="Export Dataset (JSON)" onPress={exportJson} />
+        <Button text="Import Dataset…" onPress={() => pickImport().catch((e) => console.warn('Import failed', e))} />
+      </View>
+
+      {pending ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>{pending.name}</Text>
+          <Text>Exported {pending.dataset.exportedAt ? new Date(pending.dataset.exportedAt).toLocaleString() : 'at an unknown time'}</Text>
+          <Text>
+            New: {pending.plan.added.participants.length} participants, {pending.plan.added.sessions.length} sessions, {pending.plan.added.surveys.length} surveys
+          </Text>
+          <Text>Already here and identical: {pending.plan.unchanged}</Text>
+          <Text>Conflicts: {pending.plan.conflicts.length}</Text>
+          {pending.plan.conflicts.length > 0 ? (
+            <>
+              <View style={styles.row}>
+                <Chip text="Keep All Local" onPress={() => resolveAll('local')} />
+                <Chip text="Use All Imported" onPress={() => resolveAll('incoming')} />
+              </View>
+              {pending.plan.conflicts.map((c) => (
+                <ConflictRow
+                  key={conflictKey(c)}
+                  conflict={c}
+                  choice={resolutions[conflictKey(c)] ?? 'local'}
+                  onChoose={(choice) => setResolutions((prev) => ({ ...prev, [conflictKey(c)]: choice }))}
+                />
+              ))}
+            </>
+          ) : null}
+          <View style={styles.row}>
+            <Button text="Apply Import" onPress={apply} />
+            <Button text="Cancel" onPress={() => setPending(null)} />
+          </View>
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+function ConflictRow({ conflict, choice, onChoose }: { conflict: MergeConflict; choice: Resolution; onChoose: (c: Resolution) => void }) {
+  const fields = differingFields(conflict.local, conflict.incoming);
+  return (
+    <View style={styles.conflict}>
+      <Text style={styles.label}>
+        {conflict.kind} {conflict.id === 'settings' ? '' : conflict.id.slice(0, 8)}
+      </Text>
+      <Text style={styles.hint}>Differs in: {fields.join(', ') || 'nested values'}</Text>
+      <View style={styles.row}>
+        <Chip text="Keep Local" selected={choice === 'local'} onPress={() => onChoose('local')} />
+        <Chip text="Use Imported" selected={choice === 'incoming'} onPress={() => onChoose('incoming')} />
+      </View>
+    </View>
+  );
+}
+
+function differingFields(a: unknown, b: unknown): string[] {
+  const left = (a ?? {}) as Record<string, unknown>;
+  const right = (b ?? {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+  return keys.filter((k) => JSON.stringify(left[k]) !== JSON.stringify(right[k]));
+}
+
+function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function Button({ text, onPress }: { text: string; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.button} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  conflict: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingTop: 8,
+    gap: 4,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
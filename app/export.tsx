@@ -0,0 +1,161 @@
+import ParticipantPicker from '@/components/ParticipantPicker';
+import { Text, View } from '@/components/Themed';
+import { useApp } from '@/context/AppContext';
+import { CsvTable, ExportFilter, writeCsvFiles } from '@/lib/csvExport';
+import { describeParticipant } from '@/lib/participants';
+import { shareFile } from '@/lib/shareFile';
+import { File } from 'expo-file-system';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+type Exported = { table: CsvTable; file: File };
+
+export default function ExportScreen() {
+  const { participants, exportCsv } = useApp();
+  const [participantId, setParticipantId] = useState<string | undefined>();
+  const [fromText, setFromText] = useState('');
+  const [toText, setToText] = useState('');
+  const [exported, setExported] = useState<Exported[]>([]);
+  const [busy, setBusy] = useState(false);
+  const participant = participants.find((p) => p.participantId === participantId);
+  const from = parseDay(fromText);
+  const to = parseDay(toText);
+  const invalid = (fromText.trim() !== '' && from == null) || (toText.trim() !== '' && to == null) || (from != null && to != null && from > to);
+
+  const run = async () => {
+    // The "to" day is inclusive, so it runs to the last millisecond of that day.
+    const filter: ExportFilter = { participantId, from, to: to == null ? undefined : to + 24 * 60 * 60 * 1000 - 1 };
+    setBusy(true);
+    try {
+      const tables = await exportCsv(filter);
+      const files = writeCsvFiles(tables);
+      setExported(tables.map((table, i) => ({ table, file: files[i] })));
+    } catch (e) {
+      console.warn('Export failed', e);
+      alert('Export failed. See the console for details.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>Export Data</Text>
+
+      <Text style={styles.label}>Participant</Text>
+      <View style={styles.row}>
+        <Chip text="All Participants" selected={!participantId} onPress={() => setParticipantId(undefined)} />
+        {participant ? <Chip text={describeParticipant(participant)} selected onPress={() => setParticipantId(undefined)} /> : null}
+      </View>
+      <ParticipantPicker participants={participants} selectedId={participantId} onSelect={(p) => setParticipantId(p.participantId)} />
+
+      <Text style={styles.label}>Sessions Created (YYYY-MM-DD)</Text>
+      <View style={styles.row}>
+        <TextInput style={[styles.input, { flex: 1 }]} placeholder="From" placeholderTextColor="#9CA3AF" value={fromText} onChangeText={setFromText} accessibilityLabel="From date" />
+        <TextInput style={[styles.input, { flex: 1 }]} placeholder="To" placeholderTextColor="#9CA3AF" value={toText} onChangeText={setToText} accessibilityLabel="To date" />
+      </View>
+      {invalid ? <Text style={styles.error}>Enter dates as YYYY-MM-DD, with From on or before To.</Text> : null}
+
+      <Button text={busy ? 'Exporting…' : 'Export CSV Files'} disabled={busy || invalid} onPress={run} />
+
+      {exported.map(({ table, file }) => (
+        <View key={table.name} style={[styles.row, styles.fileRow]}>
+          <Text style={{ flex: 1 }}>
+            {table.name}.csv · {table.rows.length} rows
+          </Text>
+          <Button text="Share" onPress={() => shareFile(file, 'text/csv').catch((e) => console.warn('Share failed', e))} />
+        </View>
+      ))}
+      {exported.length > 0 ? <Text style={styles.hint}>Saved in {exported[0].file.parentDirectory.uri}</Text> : null}
+    </ScrollView>
+  );
+}
+
+// Midnight local time on the given day, or undefined when the text is not a real date.
+function parseDay(text: string): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date.getTime() : undefined;
+}
+
+function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function Button({ text, onPress, disabled }: { text: string; onPress: () => void; disabled?: boolean }) {
+  return (
+    <TouchableOpacity onPress={onPress} disabled={disabled} style={[styles.button, disabled && { opacity: 0.6 }]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  label: {
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  fileRow: {
+    flexWrap: 'nowrap',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  error: {
+    color: '#dc2626',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,234 @@
+import { Text, View } from '@/components/Themed';
+import { useApp } from '@/context/AppContext';
+import {
+  DEFAULT_HAPTIC_PATTERNS,
+  HAPTIC_PATTERN_NAMES,
+  HapticPattern,
+  HapticPatternName,
+  HapticStep,
+  ImpactStrength,
+  playPattern,
+  resolvePattern,
+  stopHaptics,
+} from '@/lib/hapticPatterns';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity } from 'react-native';
+
+const STRENGTHS: ImpactStrength[] = ['light', 'medium', 'heavy'];
+
+export default function HapticPatternsScreen() {
+  const { settings, updateSettings } = useApp();
+  const [selected, setSelected] = useState<HapticPatternName>('aligned');
+  const pattern = resolvePattern(selected, settings.hapticPatterns);
+  const isCustom = settings.hapticPatterns[selected] != null;
+
+  useEffect(() => stopHaptics, []);
+
+  const save = (next: HapticPattern) => updateSettings({ hapticPatterns: { ...settings.hapticPatterns, [selected]: next } });
+  const updateStep = (index: number, step: HapticStep) => save({ ...pattern, steps: pattern.steps.map((s, i) => (i === index ? step : s)) });
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Haptic Patterns</Text>
+      <View style={styles.chipsRow}>
+        {HAPTIC_PATTERN_NAMES.map((name) => (
+          <Chip
+            key={name}
+            text={`${name.replace(/_/g, ' ')}${settings.hapticPatterns[name] ? ' *' : ''}`}
+            selected={selected === name}
+            onPress={() => {
+              stopHaptics();
+              setSelected(name);
+            }}
+          />
+        ))}
+      </View>
+
+      <View style={styles.block}>
+        <View style={styles.rowBetween}>
+          <Text style={styles.label}>{selected.replace(/_/g, ' ')}</Text>
+          <Text>{isCustom ? 'Customized' : 'Default'}</Text>
+        </View>
+        {pattern.steps.length === 0 ? <Text>No steps. Add one below.</Text> : null}
+        {pattern.steps.map((step, i) => (
+          <View key={i} style={styles.stepRow}>
+            <Text style={styles.stepKind}>
+              {i + 1}. {step.kind}
+            </Text>
+            {step.kind === 'impact' ? (
+              <View style={styles.chipsRow}>
+                {STRENGTHS.map((strength) => (
+                  <Chip key={strength} text={strength} selected={step.strength === strength} onPress={() => updateStep(i, { kind: 'impact', strength })} />
+                ))}
+              </View>
+            ) : null}
+            {step.kind === 'notification' ? (
+              <View style={styles.chipsRow}>
+                {(['success', 'warning', 'error'] as const).map((type) => (
+                  <Chip key={type} text={type} selected={step.type === type} onPress={() => updateStep(i, { kind: 'notification', type })} />
+                ))}
+              </View>
+            ) : null}
+            {step.kind === 'vibrate' || step.kind === 'pause' ? (
+              <DurationInput value={step.durationMs} label={`Step ${i + 1} duration in milliseconds`} onChange={(durationMs) => updateStep(i, { ...step, durationMs })} />
+            ) : null}
+            <Chip text="Remove" onPress={() => save({ ...pattern, steps: pattern.steps.filter((_, j) => j !== i) })} />
+          </View>
+        ))}
+        <View style={styles.chipsRow}>
+          <Chip text="+ Impact" onPress={() => save({ ...pattern, steps: [...pattern.steps, { kind: 'impact', strength: 'medium' }] })} />
+          <Chip text="+ Vibrate" onPress={() => save({ ...pattern, steps: [...pattern.steps, { kind: 'vibrate', durationMs: 200 }] })} />
+          <Chip text="+ Pause" onPress={() => save({ ...pattern, steps: [...pattern.steps, { kind: 'pause', durationMs: 100 }] })} />
+          <Chip text="+ Notification" onPress={() => save({ ...pattern, steps: [...pattern.steps, { kind: 'notification', type: 'success' }] })} />
+        </View>
+        <View style={styles.rowBetween}>
+          <Text>Repeat until stopped</Text>
+          <Switch accessibilityLabel="Repeat until stopped" value={!!pattern.repeat} onValueChange={(v) => save({ ...pattern, repeat: v })} />
+        </View>
+      </View>
+
+      <View style={styles.chipsRow}>
+        <Button text="Preview" onPress={() => playPattern(pattern)} />
+        <Button text="Stop" onPress={stopHaptics} />
+        <Button
+          text="Reset to Default"
+          disabled={!isCustom}
+          onPress={() => {
+            const { [selected]: _removed, ...rest } = settings.hapticPatterns;
+            updateSettings({ hapticPatterns: rest });
+          }}
+        />
+      </View>
+      <Text style={styles.hint}>
+        Default: {DEFAULT_HAPTIC_PATTERNS[selected].steps.map(describeStep).join(' → ')}
+        {DEFAULT_HAPTIC_PATTERNS[selected].repeat ? ' (repeats)' : ''}
+      </Text>
+    </ScrollView>
+  );
+}
+
+function describeStep(step: HapticStep): string {
+  switch (step.kind) {
+    case 'impact':
+      return `${step.strength} impact`;
+    case 'notification':
+      return `${step.type} notification`;
+    default:
+      return `${step.kind} ${step.durationMs}ms`;
+  }
+}
+
+function DurationInput({ value, label, onChange }: { value: number; label: string; onChange: (ms: number) => void }) {
+  const [text, setText] = useState(String(value));
+  useEffect(() => setText(String(value)), [value]);
+  return (
+    <TextInput
+      style={styles.input}
+      keyboardType="number-pad"
+      accessibilityLabel={label}
+      value={text}
+      onChangeText={setText}
+      onBlur={() => {
+        const ms = Math.round(Number(text));
+        if (text !== '' && Number.isFinite(ms) && ms >= 0) onChange(ms);
+        else setText(String(value));
+      }}
+    />
+  );
+}
+
+function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function Button({ text, onPress, disabled }: { text: string; onPress: () => void; disabled?: boolean }) {
+  return (
+    <TouchableOpacity onPress={onPress} disabled={disabled} style={[styles.button, disabled && { opacity: 0.6 }]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  label: {
+    fontWeight: '600',
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  stepKind: {
+    width: 110,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 80,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
@@ -1,4 +1,5 @@
 import { Text, View } from '@/components/Themed';
+import { useStrings } from '@/components/useStrings';
 import { useApp } from '@/context/AppContext';
 import * as Location from 'expo-location';
 import { useRouter } from 'expo-router';
@@ -10,6 +11,7 @@ import { Platform, StyleSheet, TouchableOpacity } from 'react-native';
 export default function CalibrationModal() {
   const router = useRouter();
   const { updateSettings } = useApp();
+  const { t, speak } = useStrings();
   const [permission, setPermission] = useState<'granted' | 'denied' | 'undetermined'>('undetermined');
   const [samples, setSamples] = useState<number[]>([]);
   const subRef = useRef<Location.LocationSubscription | null>(null);
@@ -18,7 +20,7 @@ export default function CalibrationModal() {
 
   useEffect(() => {
     // Announce instructions for accessibility
-    Speech.speak('Compass calibration. Move your phone in a figure eight until calibration completes. You will hear a confirmation when done.', { rate: 0.95 });
+    speak(t('calibration.speech_intro'), { rate: 0.95 });
   }, []);
 
   useEffect(() => {
@@ -53,7 +55,7 @@ export default function CalibrationModal() {
     const now = Date.now();
     if (movedEnough && stabilized) {
       if (now - lastSpokenRef.current > 1000) {
-        Speech.speak('Calibration complete', { rate: 1.0 });
+        speak(t('calibration.speech_done'), { rate: 1.0 });
         lastSpokenRef.current = now;
       }
       // Small delay so announcement is heard
@@ -69,7 +71,7 @@ export default function CalibrationModal() {
     const id = setInterval(() => {
       const elapsed = Date.now() - startRef.current;
       if (elapsed > 15000) {
-        Speech.speak('Skipping calibration', { rate: 1.0 });
+        speak(t('calibration.speech_skipped'), { rate: 1.0 });
         updateSettings({ hasCalibrated: true });
         router.replace('/(tabs)');
       }
@@ -78,28 +80,26 @@ export default function CalibrationModal() {
   }, []);
 
   return (
-    <View style={styles.container} accessibilityViewIsModal accessibilityLabel="Compass calibration">
-      <Text style={styles.title} accessibilityRole="header">Compass Calibration</Text>
-      <Text style={styles.body} accessibilityLabel="Instructions">
-        Move your phone in a gentle figure-eight motion until calibration completes automatically.
-      </Text>
-      <Text style={styles.bodySmall}>Permission: {permission}</Text>
+    <View style={styles.container} accessibilityViewIsModal accessibilityLabel={t('calibration.title')}>
+      <Text style={styles.title} accessibilityRole="header">{t('calibration.title')}</Text>
+      <Text style={styles.body}>{t('calibration.body')}</Text>
+      <Text style={styles.bodySmall}>{t('guidance.permission', { status: permission })}</Text>
       <View style={{ height: 16 }} />
       <TouchableOpacity
-        onPress={() => Speech.speak('Move your phone in a figure eight until calibration completes.')}
+        onPress={() => speak(t('calibration.speech_repeat'))}
         accessibilityRole="button"
-        accessibilityLabel="Repeat instructions"
+        accessibilityLabel={t('calibration.repeat')}
         style={styles.primaryBtn}
       >
-        <Text style={styles.primaryBtnText}>Repeat Instructions</Text>
+        <Text style={styles.primaryBtnText}>{t('calibration.repeat')}</Text>
       </TouchableOpacity>
       <TouchableOpacity
         onPress={() => { updateSettings({ hasCalibrated: true }); router.back(); }}
         accessibilityRole="button"
-        accessibilityLabel="Skip calibration"
+        accessibilityLabel={t('calibration.skip')}
         style={styles.secondaryBtn}
       >
-        <Text style={styles.secondaryBtnText}>Skip</Text>
+        <Text style={styles.secondaryBtnText}>{t('calibration.skip')}</Text>
       </TouchableOpacity>
       <StatusBar style={Platform.OS === 'ios' ? 'light' : 'auto'} />
     </View>
@@ -0,0 +1,277 @@
+import { Text, View } from '@/components/Themed';
+import { useGuidance } from '@/components/useGuidance';
+import { useRemoteStatus } from '@/components/useRemote';
+import { getMonitorSnapshot, MONITOR_WINDOW_MS, MonitorSample, subscribeMonitor } from '@/lib/trialMonitor';
+import { useIsFocused } from '@react-navigation/native';
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View as RNView } from 'react-native';
+
+const WINDOWS_MS = [30 * 1000, 60 * 1000, MONITOR_WINDOW_MS];
+const CHART_HEIGHT = 120;
+const STRIP_HEIGHT = 14;
+const DOT = 4;
+const COLORS = {
+  heading: '#2563eb',
+  bearing: '#f59e0b',
+  aligned: '#16a34a',
+  off: '#dc2626',
+  grid: '#9CA3AF',
+};
+
+// Live view of guidance during a trial: heading against target bearing, the signed error and
+// whether the participant was aligned, scrolling with the newest sample at the right edge.
+export default function MonitorScreen() {
+  const { samples, receivedAt } = useSyncExternalStore(subscribeMonitor, getMonitorSnapshot);
+  const link = useRemoteStatus();
+  const isFocused = useIsFocused();
+  // The feedback screen's guidance pauses under this one, so on a single device the monitor runs
+  // the same sensors and engine itself, without cues and without recording anything.
+  const { permission } = useGuidance(isFocused && link.role !== 'console', undefined, true);
+  const [windowMs, setWindowMs] = useState(60 * 1000);
+  const [width, setWidth] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const latest = samples[samples.length - 1];
+  const end = latest?.at ?? 0;
+  const visible = samples.filter((s) => s.at >= end - windowMs);
+  const x = (at: number) => ((at - (end - windowMs)) / windowMs) * width;
+  const ageSec = receivedAt ? Math.floor((now - receivedAt) / 1000) : null;
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Trial Monitor</Text>
+      <Text style={styles.hint}>
+        {link.role === 'console'
+          ? `From the participant device over remote control (${link.peerConnected ? 'connected' : 'not connected'}).`
+          : `Live from this device's sensors (permission: ${permission}). Cues are not played while the monitor is open; to watch a trial without interrupting it, open the monitor on a second phone paired as the researcher console under Remote Control.`}
+      </Text>
+
+      {latest ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>
+            {latest.target} · {ageSec != null && ageSec > 2 ? `no update for ${ageSec}s` : 'live'}
+          </Text>
+          <Text>
+            Heading {Math.round(latest.heading)}° · Bearing {Math.round(latest.targetBearing)}° · Error {formatSigned(latest.errorDeg)}°
+          </Text>
+          <Text style={{ color: latest.aligned ? COLORS.aligned : COLORS.off, fontWeight: '600' }}>{latest.aligned ? 'Aligned' : 'Not aligned'}</Text>
+          <Text>
+            Distance {formatDistance(latest.distanceMeters)} · GPS accuracy {latest.accuracy != null ? `±${Math.round(latest.accuracy)} m` : 'unknown'}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.block}>
+          <Text>No guidance yet. Samples appear once there is a heading and a position fix for a route waypoint.</Text>
+        </View>
+      )}
+
+      <View style={styles.row}>
+        {WINDOWS_MS.map((ms) => (
+          <Chip key={ms} text={ms < 60000 ? `${ms / 1000}s` : `${ms / 60000} min`} selected={windowMs === ms} onPress={() => setWindowMs(ms)} />
+        ))}
+      </View>
+
+      <RNView onLayout={(e) => setWidth(e.nativeEvent.layout.width)}>
+        <Text style={styles.label}>Heading and target bearing</Text>
+        <Legend items={[['Heading', COLORS.heading], ['Bearing', COLORS.bearing]]} />
+        <RNView style={styles.chart}>
+          <GridLine y={CHART_HEIGHT / 2} label="180°" />
+          {width > 0
+            ? visible.map((s, i) => (
+                <React.Fragment key={i}>
+                  <Dot x={x(s.at)} y={scale(s.targetBearing, 0, 360)} color={COLORS.bearing} />
+                  <Dot x={x(s.at)} y={scale(s.heading, 0, 360)} color={COLORS.heading} />
+                </React.Fragment>
+              ))
+            : null}
+        </RNView>
+
+        <Text style={styles.label}>Signed error (right is positive)</Text>
+        <RNView style={styles.chart}>
+          <GridLine y={CHART_HEIGHT / 2} label="0°" />
+          <GridLine y={scale(90, -180, 180)} label="+90°" />
+          <GridLine y={scale(-90, -180, 180)} label="−90°" />
+          {width > 0
+            ? visible.map((s, i) => <Dot key={i} x={x(s.at)} y={scale(s.errorDeg, -180, 180)} color={s.aligned ? COLORS.aligned : COLORS.off} />)
+            : null}
+        </RNView>
+
+        <Text style={styles.label}>Aligned</Text>
+        <RNView style={styles.strip}>
+          {width > 0
+            ? visible.map((s, i) => {
+                const left = Math.max(0, x(s.at));
+                const right = i + 1 < visible.length ? x(visible[i + 1].at) : width;
+                return (
+                  <RNView
+                    key={i}
+                    style={[styles.segment, { left, width: Math.max(1, right - left), backgroundColor: s.aligned ? COLORS.aligned : COLORS.off }]}
+                  />
+                );
+              })
+            : null}
+        </RNView>
+        <RNView style={styles.axis}>
+          <Text style={styles.hint}>−{Math.round(windowMs / 1000)}s</Text>
+          <Text style={styles.hint}>latest</Text>
+        </RNView>
+      </RNView>
+    </ScrollView>
+  );
+}
+
+// Maps a value onto the chart's height, with `max` at the top.
+function scale(value: number, min: number, max: number): number {
+  const clamped = Math.min(max, Math.max(min, value));
+  return CHART_HEIGHT - ((clamped - min) / (max - min)) * CHART_HEIGHT;
+}
+
+function formatSigned(deg: number): string {
+  const rounded = Math.round(deg);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+}
+
+function Dot({ x, y, color }: { x: number; y: number; color: string }) {
+  return <RNView style={[styles.dot, { left: x - DOT / 2, top: y - DOT / 2, backgroundColor: color }]} />;
+}
+
+function GridLine({ y, label }: { y: number; label: string }) {
+  return (
+    <>
+      <RNView style={[styles.gridLine, { top: y }]} />
+      <Text style={[styles.gridLabel, { top: y - 14 }]}>{label}</Text>
+    </>
+  );
+}
+
+function Legend({ items }: { items: [string, string][] }) {
+  return (
+    <View style={styles.row}>
+      {items.map(([label, color]) => (
+        <View key={label} style={styles.legendItem}>
+          <RNView style={[styles.legendSwatch, { backgroundColor: color }]} />
+          <Text style={styles.hint}>{label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  label: {
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    marginTop: 4,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.grid,
+    overflow: 'hidden',
+  },
+  strip: {
+    height: STRIP_HEIGHT,
+    marginTop: 4,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.grid,
+    overflow: 'hidden',
+  },
+  segment: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT,
+    height: DOT,
+    borderRadius: DOT / 2,
+  },
+  gridLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: COLORS.grid,
+  },
+  gridLabel: {
+    position: 'absolute',
+    left: 4,
+    fontSize: 10,
+    opacity: 0.6,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontSize: 14,
+  },
+});
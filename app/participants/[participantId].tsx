@@ -0,0 +1,105 @@
+import ParticipantForm from '@/components/ParticipantForm';
+import { Text, View } from '@/components/Themed';
+import { useApp } from '@/context/AppContext';
+import { draftFromParticipant, hasErrors, ParticipantDraft, ParticipantErrors, validateParticipant } from '@/lib/participants';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+// Edits one participant, or creates one when opened as /participants/new.
+export default function EditParticipantScreen() {
+  const router = useRouter();
+  const { participantId } = useLocalSearchParams<{ participantId: string }>();
+  const { participants, sessions, settings, addParticipant, updateParticipant } = useApp();
+  const isNew = participantId === 'new';
+  const participant = isNew ? undefined : participants.find((p) => p.participantId === participantId);
+  const [draft, setDraft] = useState<ParticipantDraft>(() => draftFromParticipant(participant, settings.locale));
+  const [errors, setErrors] = useState<ParticipantErrors>({});
+  const [attempted, setAttempted] = useState(false);
+
+  if (!isNew && !participant) {
+    return (
+      <View style={styles.container}>
+        <Text>Participant not found.</Text>
+      </View>
+    );
+  }
+
+  const change = (updates: Partial<ParticipantDraft>) => {
+    const next = { ...draft, ...updates };
+    setDraft(next);
+    // Once a save has failed, re-check as the researcher fixes each field.
+    if (attempted) setErrors(validateParticipant(next).errors);
+  };
+
+  const save = () => {
+    const { fields, errors: nextErrors } = validateParticipant(draft);
+    setAttempted(true);
+    setErrors(nextErrors);
+    if (hasErrors(nextErrors)) return;
+    if (participant) updateParticipant(participant.participantId, fields);
+    else addParticipant(fields);
+    router.back();
+  };
+
+  const sessionCount = participant ? sessions.filter((s) => s.participantId === participant.participantId).length : 0;
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Stack.Screen options={{ title: isNew ? 'New Participant' : 'Edit Participant' }} />
+      {participant ? (
+        <View style={styles.block}>
+          <Text selectable>ID: {participant.participantId}</Text>
+          <Text>Created: {new Date(participant.createdAt).toLocaleString()}</Text>
+          <Text>Sessions: {sessionCount}</Text>
+          {participant.conditionOrder ? (
+            <Text>
+              Condition order: {participant.conditionOrder.map((m) => m.replace('_', ' ')).join(' → ')} (row {(participant.counterbalanceRow ?? 0) + 1})
+            </Text>
+          ) : null}
+          {participant.trainingResults?.map((r) => (
+            <Text key={r.completedAt}>
+              Training ({r.feedbackMode.replace('_', ' ')}): {r.correct}/{r.trials} on {new Date(r.completedAt).toLocaleDateString()}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+      <ParticipantForm draft={draft} errors={errors} onChange={change} />
+      <Button text={isNew ? 'Create Participant' : 'Save Changes'} onPress={save} />
+    </ScrollView>
+  );
+}
+
+function Button({ text, onPress }: { text: string; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.button} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 4,
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
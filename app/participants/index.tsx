@@ -0,0 +1,50 @@
+import ParticipantPicker from '@/components/ParticipantPicker';
+import { Text } from '@/components/Themed';
+import { useApp } from '@/context/AppContext';
+import { useRouter } from 'expo-router';
+import React from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+export default function ParticipantsScreen() {
+  const router = useRouter();
+  const { participants } = useApp();
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>Participants ({participants.length})</Text>
+      <Button text="Add Participant" onPress={() => router.push('/participants/new')} />
+      <ParticipantPicker participants={participants} onSelect={(p) => router.push({ pathname: '/participants/[participantId]', params: { participantId: p.participantId } })} />
+    </ScrollView>
+  );
+}
+
+function Button({ text, onPress }: { text: string; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.button} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,151 @@
+import { Text, View } from '@/components/Themed';
+import { useProtocol } from '@/components/useProtocol';
+import { useApp } from '@/context/AppContext';
+import { currentStep, PROTOCOL_STEP_LABELS, PROTOCOL_STEP_ROUTES, ProtocolRun } from '@/lib/protocol';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+export default function ProtocolScreen() {
+  const router = useRouter();
+  const { protocolRuns } = useApp();
+  const { activeRun, resumeRun, completeStep } = useProtocol();
+  const [skipReason, setSkipReason] = useState('');
+  const step = activeRun ? currentStep(activeRun) : null;
+  const unfinished = protocolRuns.filter((r) => !r.completedAt && r.runId !== activeRun?.runId);
+  const finished = protocolRuns.filter((r) => r.completedAt).slice(-5).reverse();
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>Study Protocol</Text>
+      {activeRun && step ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>{describeRun(activeRun)}</Text>
+          <RunSteps run={activeRun} />
+          <Button text={`Open ${PROTOCOL_STEP_LABELS[step.step]}`} onPress={() => router.push(PROTOCOL_STEP_ROUTES[step.step])} />
+          <Text style={styles.hint}>Steps run in order. To move on without finishing this step, give a reason:</Text>
+          <TextInput
+            value={skipReason}
+            onChangeText={setSkipReason}
+            placeholder="Reason for skipping"
+            style={styles.input}
+            accessibilityLabel="Reason for skipping this step"
+          />
+          <Button
+            text={`Skip ${PROTOCOL_STEP_LABELS[step.step]}`}
+            disabled={skipReason.trim().length === 0}
+            onPress={() => {
+              completeStep(step.step, { skip: { reason: skipReason.trim() } });
+              setSkipReason('');
+            }}
+          />
+        </View>
+      ) : (
+        <Text>No protocol run in progress. Start one from the researcher panel.</Text>
+      )}
+
+      {unfinished.length > 0 ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>Interrupted Runs</Text>
+          {unfinished.map((r) => (
+            <View key={r.runId} style={styles.row}>
+              <Text style={{ flex: 1 }}>
+                {describeRun(r)} · at {PROTOCOL_STEP_LABELS[currentStep(r)?.step ?? 'survey']}
+              </Text>
+              <Button text="Resume" onPress={() => resumeRun(r.runId)} />
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      {finished.length > 0 ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>Recently Completed</Text>
+          {finished.map((r) => (
+            <View key={r.runId}>
+              <Text>{describeRun(r)}</Text>
+              <RunSteps run={r} />
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+function describeRun(run: ProtocolRun): string {
+  return `${run.participantId.slice(0, 8)} · ${run.feedbackMode.replace('_', ' ')} · ${new Date(run.createdAt).toLocaleString()}`;
+}
+
+function RunSteps({ run }: { run: ProtocolRun }) {
+  return (
+    <View style={styles.steps}>
+      {run.steps.map((s, i) => (
+        <Text key={i} style={s.status === 'active' ? styles.activeStep : undefined}>
+          {i + 1}. {PROTOCOL_STEP_LABELS[s.step]}: {s.status}
+          {s.skipReason ? ` (${s.skipReason})` : ''}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+function Button({ text, onPress, disabled }: { text: string; onPress: () => void; disabled?: boolean }) {
+  return (
+    <TouchableOpacity onPress={onPress} disabled={disabled} style={[styles.button, disabled && { opacity: 0.6 }]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  steps: {
+    gap: 2,
+  },
+  activeStep: {
+    fontWeight: '700',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,291 @@
+import { Text, View } from '@/components/Themed';
+import { useRemoteStatus } from '@/components/useRemote';
+import { FeedbackMode, useApp } from '@/context/AppContext';
+import { PROTOCOL_STEP_LABELS } from '@/lib/protocol';
+import { onRemoteMessage, RemoteCommand, RemoteRole, sendRemote } from '@/lib/remote';
+import { generateUuidV4 } from '@/lib/uuid';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+const ROLE_LABELS: Record<RemoteRole, string> = {
+  off: 'Off',
+  participant: 'Participant Device',
+  console: 'Researcher Console',
+};
+
+const MODES: FeedbackMode[] = ['audio', 'static_haptic', 'dynamic_haptic', 'sonification'];
+
+// Sets up remote control on either device, and on the researcher's device is the console itself.
+export default function RemoteScreen() {
+  const router = useRouter();
+  const { settings, updateSettings } = useApp();
+  const link = useRemoteStatus();
+  const participant = link.participant;
+  const [url, setUrl] = useState(settings.remoteUrl);
+  const [room, setRoom] = useState(settings.remoteRoom);
+  const [secret, setSecret] = useState(settings.remoteSecret);
+  const [pending, setPending] = useState<{ id: string; label: string } | null>(null);
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
+  const [result, setResult] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (settings.remoteRole !== 'console') return;
+    return onRemoteMessage((message) => {
+      const sent = pendingRef.current;
+      if (message.type === 'ack' && sent?.id === message.id) {
+        setResult(message.ok ? `${sent.label}: done` : `${sent.label}: ${message.error}`);
+        setPending(null);
+      }
+    });
+  }, [settings.remoteRole]);
+
+  useEffect(() => {
+    if (!participant?.startedAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [participant?.startedAt]);
+
+  const send = (label: string, command: RemoteCommand) => {
+    const id = generateUuidV4();
+    if (!sendRemote({ type: 'command', id, command })) {
+      setResult(`${label}: not connected`);
+      return;
+    }
+    setPending({ id, label });
+    setResult(null);
+  };
+
+  const peerLabel = settings.remoteRole === 'console' ? 'Participant device' : 'Researcher console';
+  const canCommand = settings.remoteRole === 'console' && link.peerConnected;
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>Remote Control</Text>
+
+      <View style={styles.block}>
+        <Text style={styles.label}>This Device</Text>
+        <View style={styles.row}>
+          {(Object.keys(ROLE_LABELS) as RemoteRole[]).map((role) => (
+            <Chip key={role} text={ROLE_LABELS[role]} selected={settings.remoteRole === role} onPress={() => updateSettings({ remoteRole: role })} />
+          ))}
+        </View>
+        <Text>Relay</Text>
+        <TextInput
+          style={styles.input}
+          accessibilityLabel="Remote relay URL"
+          placeholder="ws://192.168.1.20:8788"
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          value={url}
+          onChangeText={setUrl}
+          onBlur={() => {
+            const next = url.trim();
+            if (next === '' || /^wss?:\/\/\S+$/.test(next)) updateSettings({ remoteUrl: next });
+            else {
+              alert('Enter a URL starting with ws:// or wss://.');
+              setUrl(settings.remoteUrl);
+            }
+          }}
+        />
+        <Text>Room</Text>
+        <TextInput
+          style={styles.input}
+          accessibilityLabel="Remote room"
+          autoCapitalize="none"
+          autoCorrect={false}
+          value={room}
+          onChangeText={setRoom}
+          onBlur={() => {
+            if (room.trim()) updateSettings({ remoteRoom: room.trim() });
+            else setRoom(settings.remoteRoom);
+          }}
+        />
+        <Text>Access code</Text>
+        <TextInput
+          style={styles.input}
+          accessibilityLabel="Remote access code"
+          autoCapitalize="none"
+          autoCorrect={false}
+          secureTextEntry
+          value={secret}
+          onChangeText={setSecret}
+          onBlur={() => updateSettings({ remoteSecret: secret.trim() })}
+        />
+        <Text style={styles.hint}>
+          Both devices use the same relay, room and access code. Run `npm run remote-relay` on a laptop on the same network; it prints the access code when it starts.
+        </Text>
+      </View>
+
+      {settings.remoteRole !== 'off' ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>Connection</Text>
+          {!settings.remoteSecret ? <Text>Enter the relay's access code to connect.</Text> : null}
+          <Text>Relay: {link.socket === 'open' ? 'connected' : link.socket === 'connecting' ? 'connecting…' : 'not connected, retrying'}</Text>
+          <Text>
+            {peerLabel}: {link.peerConnected ? 'connected' : 'not connected'}
+          </Text>
+        </View>
+      ) : null}
+
+      {settings.remoteRole === 'console' ? (
+        <View style={styles.block}>
+          <Text style={styles.label}>Participant Device</Text>
+          {participant ? (
+            <>
+              <Text>
+                Participant {participant.participantId?.slice(0, 8) ?? 'none'} · {participant.feedbackMode?.replace('_', ' ') ?? 'no condition'}
+              </Text>
+              <Text>
+                Step: {participant.step ? PROTOCOL_STEP_LABELS[participant.step] : 'none'}
+                {participant.startedAt ? ` · running ${formatSeconds(Math.floor((now - participant.startedAt) / 1000))}` : ''}
+              </Text>
+              <Text>
+                Checkpoints: {participant.checkpoints} · Errors: {participant.errors}
+              </Text>
+            </>
+          ) : (
+            <Text>Waiting for the participant device.</Text>
+          )}
+          {pending ? <Text>Sending {pending.label}…</Text> : result ? <Text>{result}</Text> : null}
+          <Button text="Trial Monitor" onPress={() => router.push('/monitor')} />
+
+          <View style={styles.row}>
+            <Button text="Start Stage" disabled={!canCommand} onPress={() => send('Start stage', { kind: 'start_stage' })} />
+            {participant?.step === 'red_dot' ? (
+              <>
+                <Button text="End: Completed" disabled={!canCommand} onPress={() => send('End as completed', { kind: 'end_stage', completed: true })} />
+                <Button text="End: Incomplete" disabled={!canCommand} onPress={() => send('End as incomplete', { kind: 'end_stage', completed: false })} />
+              </>
+            ) : (
+              <Button text="End Stage" disabled={!canCommand} onPress={() => send('End stage', { kind: 'end_stage' })} />
+            )}
+          </View>
+          <View style={styles.row}>
+            <Button text="Checkpoint" disabled={!canCommand} onPress={() => send('Checkpoint', { kind: 'log_event', event: 'checkpoint' })} />
+            <Button text="Error" disabled={!canCommand} onPress={() => send('Error', { kind: 'log_event', event: 'error' })} />
+            <Button text="Undo" disabled={!canCommand} onPress={() => send('Undo', { kind: 'undo_event' })} />
+          </View>
+
+          <Text>Feedback mode{participant?.startedAt ? ' (fixed once the stage has started)' : ''}</Text>
+          <View style={styles.row}>
+            {MODES.map((mode) => (
+              <Chip
+                key={mode}
+                text={mode.replace('_', ' ')}
+                selected={participant?.feedbackMode === mode}
+                onPress={() => canCommand && !participant?.startedAt && send(`Switch to ${mode.replace('_', ' ')}`, { kind: 'set_mode', mode })}
+              />
+            ))}
+          </View>
+
+          {participant && participant.waypoints.length > 0 ? (
+            <>
+              <Text>Target</Text>
+              <View style={styles.row}>
+                {participant.waypoints.map((name, i) => (
+                  <Chip
+                    key={i}
+                    text={`${i + 1}. ${name}`}
+                    selected={participant.routeIndex === i}
+                    onPress={() => canCommand && send(`Target ${name}`, { kind: 'set_target', routeIndex: i })}
+                  />
+                ))}
+              </View>
+            </>
+          ) : null}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+function formatSeconds(total: number): string {
+  const m = Math.floor(total / 60).toString().padStart(2, '0');
+  const s = Math.floor(total % 60).toString().padStart(2, '0');
+  return `${m}:${s}`;
+}
+
+function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function Button({ text, onPress, disabled }: { text: string; onPress: () => void; disabled?: boolean }) {
+  return (
+    <TouchableOpacity onPress={onPress} disabled={disabled} style={[styles.button, disabled && { opacity: 0.6 }]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -1,43 +1,88 @@
+import ParticipantForm from '@/components/ParticipantForm';
+import ParticipantPicker from '@/components/ParticipantPicker';
 import { Text, View } from '@/components/Themed';
+import { useProtocol } from '@/components/useProtocol';
 import { FeedbackMode, useApp } from '@/context/AppContext';
-import React, { useMemo, useState } from 'react';
-import { StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { assignConditionOrder, nextCondition } from '@/lib/counterbalancing';
+import { describeParticipant, draftFromParticipant, hasErrors, ParticipantDraft, ParticipantErrors, validateParticipant } from '@/lib/participants';
+import { useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
 
 export default function NewSessionScreen() {
-  const { addParticipant, participants, addSession } = useApp();
-  const [age, setAge] = useState('');
-  const [vision, setVision] = useState<'blind' | 'low_vision' | 'sighted_control' | undefined>();
+  const params = useLocalSearchParams<{ participantId?: string }>();
+  const { addParticipant, participants, sessions, settings } = useApp();
+  const { startRun } = useProtocol();
+  const [who, setWho] = useState<'existing' | 'new'>(participants.length > 0 ? 'existing' : 'new');
+  const [existingId, setExistingId] = useState<string | undefined>(params.participantId);
+  const [draft, setDraft] = useState<ParticipantDraft>(() => draftFromParticipant(undefined, settings.locale));
+  const [errors, setErrors] = useState<ParticipantErrors>({});
+  const [attempted, setAttempted] = useState(false);
   const [mode, setMode] = useState<FeedbackMode>('audio');
+  const existing = participants.find((p) => p.participantId === existingId);
+  // A new participant will get the next square row when created, so their first condition is known now.
+  const next =
+    who === 'existing'
+      ? existing
+        ? nextCondition(existing, sessions)
+        : null
+      : { mode: assignConditionOrder(settings.studyConditions, participants).conditionOrder[0], position: 0 };
+  const orderLength = who === 'existing' ? existing?.conditionOrder?.length : settings.studyConditions.length;
 
-  const canSave = useMemo(() => age.length > 0 && vision, [age, vision]);
+  useEffect(() => {
+    if (next) setMode(next.mode);
+  }, [existingId, who, next?.mode]);
+
+  const changeDraft = (updates: Partial<ParticipantDraft>) => {
+    const next = { ...draft, ...updates };
+    setDraft(next);
+    if (attempted) setErrors(validateParticipant(next).errors);
+  };
+
+  const save = () => {
+    let participantId = existing?.participantId;
+    if (who === 'new') {
+      const { fields, errors: nextErrors } = validateParticipant(draft);
+      setAttempted(true);
+      setErrors(nextErrors);
+      if (hasErrors(nextErrors)) return;
+      participantId = addParticipant(fields).participantId;
+    }
+    if (!participantId) return;
+    startRun(participantId, mode);
+  };
 
   return (
-    <View style={styles.container}>
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
       <Text style={styles.title}>Create Session</Text>
-      <Text style={styles.label}>Age</Text>
-      <TextInput keyboardType="number-pad" value={age} onChangeText={setAge} style={styles.input} accessibilityLabel="Participant age" />
-      <Text style={styles.label}>Vision Status</Text>
+      <Text style={styles.label}>Participant</Text>
       <View style={styles.row}>
-        {(['blind', 'low_vision', 'sighted_control'] as const).map((v) => (
-          <Chip key={v} text={v.replace('_', ' ')} selected={vision === v} onPress={() => setVision(v)} />
-        ))}
+        <Chip text="Existing Participant" selected={who === 'existing'} onPress={() => setWho('existing')} />
+        <Chip text="New Participant" selected={who === 'new'} onPress={() => setWho('new')} />
       </View>
+      {who === 'existing' ? (
+        <>
+          <Text>{existing ? `Selected: ${describeParticipant(existing)}` : 'Select a participant below.'}</Text>
+          <ParticipantPicker participants={participants} selectedId={existingId} onSelect={(p) => setExistingId(p.participantId)} />
+        </>
+      ) : (
+        <ParticipantForm draft={draft} errors={errors} onChange={changeDraft} />
+      )}
       <Text style={styles.label}>Feedback Mode</Text>
       <View style={styles.row}>
-        {(['audio', 'static_haptic', 'dynamic_haptic'] as const).map((m) => (
+        {(['audio', 'static_haptic', 'dynamic_haptic', 'sonification'] as const).map((m) => (
           <Chip key={m} text={m.replace('_', ' ')} selected={mode === m} onPress={() => setMode(m)} />
         ))}
       </View>
-      <Button
-        text="Save Session"
-        disabled={!canSave}
-        onPress={() => {
-          const p = addParticipant({ age: Number(age), visionStatus: vision });
-          addSession({ participantId: p.participantId, feedbackMode: mode, stage: 'red_dot' });
-          alert('Session created');
-        }}
-      />
-    </View>
+      {next ? (
+        <Text>
+          {mode === next.mode
+            ? `Condition ${next.position + 1} of ${orderLength} in this participant's order.`
+            : `Warning: the assigned order says ${next.mode.replace('_', ' ')} next.`}
+        </Text>
+      ) : null}
+      <Button text="Start Protocol" disabled={who === 'existing' && !existing} onPress={save} />
+    </ScrollView>
   );
 }
 
@@ -59,7 +104,7 @@ function Button({ text, onPress, disabled }: { text: string; onPress: () => void
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     padding: 16,
     gap: 12,
   },
@@ -70,11 +115,6 @@ const styles = StyleSheet.create({
   label: {
     fontWeight: '600',
   },
-  input: {
-    borderWidth: 1,
-    borderRadius: 8,
-    padding: 8,
-  },
   row: {
     flexDirection: 'row',
     gap: 8,
@@ -1,17 +1,32 @@
 import { Text, View } from '@/components/Themed';
-import { useApp } from '@/context/AppContext';
+import { Settings, useApp, Waypoint } from '@/context/AppContext';
+import { ALL_CONDITIONS, balancedLatinSquare } from '@/lib/counterbalancing';
+import { LOCALE_LABELS, LOCALES } from '@/lib/i18n';
+import { getLatestFix } from '@/lib/positionStream';
+import { PROTOCOL_STEP_LABELS, PROTOCOL_STEPS } from '@/lib/protocol';
+import { getSimulatorState } from '@/lib/simulator';
+import { SPEECH_STYLE_LABELS, SPEECH_STYLES, speechConfig, spokenInstruction } from '@/lib/speechInstructions';
+import { generateUuidV4 } from '@/lib/uuid';
 import * as Location from 'expo-location';
+import { useRouter } from 'expo-router';
 import React, { useMemo, useState } from 'react';
-import { StyleSheet, Switch, TextInput, TouchableOpacity } from 'react-native';
+import { ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity } from 'react-native';
 
 export default function SettingsScreen() {
-  const { settings, updateSettings } = useApp();
+  const router = useRouter();
+  const { settings, updateSettings, routeIndex, setRouteIndex } = useApp();
   const thresholdOptions = useMemo(() => [3, 5, 10, 15, 20, 30], []);
-  const [latInput, setLatInput] = useState<string>(settings.targetLat != null ? String(settings.targetLat) : '');
-  const [lonInput, setLonInput] = useState<string>(settings.targetLon != null ? String(settings.targetLon) : '');
+  const arrivalRadiusOptions = useMemo(() => [1, 2, 3, 5, 10], []);
+  const filterStrengthOptions = useMemo(() => [0.25, 0.5, 0.75, 0.9], []);
+  const speechFacingOptions = useMemo(() => [5, 10, 15, 20], []);
+  const speechSlightOptions = useMemo(() => [15, 20, 30, 45], []);
+  const searchLimitOptions = useMemo(() => [0, 60, 120, 180, 300], []);
+  const [objectNames, setObjectNames] = useState(settings.searchObjectNames.join(', '));
+  const [syncUrl, setSyncUrl] = useState(settings.syncUrl);
+  const speech = speechConfig(settings);
 
   return (
-    <View style={styles.container}>
+    <ScrollView contentContainerStyle={styles.container}>
       <Text style={styles.title}>Experiment Settings</Text>
 
       <View style={styles.rowBetween}>
@@ -23,6 +38,106 @@ export default function SettingsScreen() {
         />
       </View>
 
+      <Text style={styles.label}>Participant Language</Text>
+      <View style={styles.chipsRow}>
+        {LOCALES.map((locale) => (
+          <Chip key={locale} text={LOCALE_LABELS[locale]} selected={settings.locale === locale} onPress={() => updateSettings({ locale })} />
+        ))}
+      </View>
+      <Text style={styles.hint}>Used for on-screen text and speech unless the session's participant has their own language.</Text>
+
+      <Text style={styles.label}>Study Conditions</Text>
+      <View style={styles.chipsRow}>
+        {ALL_CONDITIONS.map((mode) => {
+          const included = settings.studyConditions.includes(mode);
+          return (
+            <Chip
+              key={mode}
+              text={mode.replace('_', ' ')}
+              selected={included}
+              onPress={() => {
+                if (included && settings.studyConditions.length === 1) return;
+                updateSettings({
+                  studyConditions: included ? settings.studyConditions.filter((m) => m !== mode) : ALL_CONDITIONS.filter((m) => m === mode || settings.studyConditions.includes(m)),
+                });
+              }}
+            />
+          );
+        })}
+      </View>
+      <Text style={styles.hint}>
+        New participants get the next of {balancedLatinSquare(settings.studyConditions.length).length} counterbalanced orders. Existing participants keep theirs.
+      </Text>
+
+      <Text style={styles.label}>Protocol Steps</Text>
+      <View style={styles.chipsRow}>
+        {PROTOCOL_STEPS.map((step) => {
+          const included = settings.protocolSteps.includes(step);
+          return (
+            <Chip
+              key={step}
+              text={PROTOCOL_STEP_LABELS[step]}
+              selected={included}
+              onPress={() => {
+                if (included && settings.protocolSteps.length === 1) return;
+                updateSettings({
+                  protocolSteps: included ? settings.protocolSteps.filter((s) => s !== step) : PROTOCOL_STEPS.filter((s) => s === step || settings.protocolSteps.includes(s)),
+                });
+              }}
+            />
+          );
+        })}
+      </View>
+      <Text style={styles.hint}>Steps each protocol run walks through, in this order. Runs already started keep their steps.</Text>
+
+      <Text style={styles.label}>Object Search</Text>
+      <Text>Time limit</Text>
+      <View style={styles.chipsRow}>
+        {searchLimitOptions.map((sec) => (
+          <Chip key={sec} text={sec === 0 ? 'None' : `${sec / 60} min`} selected={settings.searchTimeLimitSec === sec} onPress={() => updateSettings({ searchTimeLimitSec: sec })} />
+        ))}
+      </View>
+      <Text>Objects (comma separated)</Text>
+      <TextInput
+        style={styles.input}
+        accessibilityLabel="Object search objects"
+        value={objectNames}
+        onChangeText={setObjectNames}
+        onBlur={() => {
+          const names = objectNames.split(',').map((n) => n.trim()).filter(Boolean);
+          if (names.length > 0) updateSettings({ searchObjectNames: names });
+          else setObjectNames(settings.searchObjectNames.join(', '));
+        }}
+      />
+
+      <Text style={styles.label}>Study Server</Text>
+      <TextInput
+        style={styles.input}
+        accessibilityLabel="Study server upload URL"
+        placeholder="http://192.168.1.20:8787/records"
+        placeholderTextColor="#9CA3AF"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        value={syncUrl}
+        onChangeText={setSyncUrl}
+        onBlur={() => {
+          const url = syncUrl.trim();
+          if (url === '' || /^https?:\/\/\S+$/.test(url)) updateSettings({ syncUrl: url });
+          else {
+            alert('Enter a URL starting with http:// or https://, or leave it empty to turn uploads off.');
+            setSyncUrl(settings.syncUrl);
+          }
+        }}
+      />
+      <Text style={styles.hint}>New and changed records are uploaded here, and queued while the server cannot be reached. Leave empty to keep data on this device.</Text>
+
+      <Text style={styles.label}>Sensor Source</Text>
+      <View style={styles.chipsRow}>
+        <Chip text="Device" selected={settings.sensorSource === 'device'} onPress={() => updateSettings({ sensorSource: 'device' })} />
+        <Chip text="Simulated" selected={settings.sensorSource === 'simulated'} onPress={() => updateSettings({ sensorSource: 'simulated' })} />
+      </View>
+
       <Text style={styles.label}>Alignment Threshold (degrees)</Text>
       <View style={styles.chipsRow}>
         {thresholdOptions.map((deg) => (
@@ -35,67 +150,221 @@ export default function SettingsScreen() {
         ))}
       </View>
 
-      <Text style={styles.label}>Target Coordinates</Text>
-      <View style={{ gap: 8 }}>
-        <Text>Latitude</Text>
+      <Text style={styles.label}>Arrival Radius (meters)</Text>
+      <View style={styles.chipsRow}>
+        {arrivalRadiusOptions.map((m) => (
+          <Chip key={m} text={`${m} m`} selected={settings.arrivalRadiusM === m} onPress={() => updateSettings({ arrivalRadiusM: m })} />
+        ))}
+      </View>
+
+      <Text style={styles.label}>Heading Smoothing</Text>
+      <View style={styles.chipsRow}>
+        {(['none', 'exponential', 'kalman'] as const).map((type) => (
+          <Chip
+            key={type}
+            text={type === 'none' ? 'Off' : type === 'exponential' ? 'Exponential' : 'Kalman'}
+            selected={settings.headingFilterType === type}
+            onPress={() => updateSettings({ headingFilterType: type })}
+          />
+        ))}
+      </View>
+      {settings.headingFilterType !== 'none' ? (
+        <View style={styles.chipsRow}>
+          {filterStrengthOptions.map((strength) => (
+            <Chip
+              key={strength}
+              text={`Strength ${strength}`}
+              selected={settings.headingFilterStrength === strength}
+              onPress={() => updateSettings({ headingFilterStrength: strength })}
+            />
+          ))}
+        </View>
+      ) : null}
+
+      <Text style={styles.label}>Spoken Instructions</Text>
+      <View style={styles.chipsRow}>
+        {SPEECH_STYLES.map((style) => (
+          <Chip key={style} text={SPEECH_STYLE_LABELS[style]} selected={settings.speechStyle === style} onPress={() => updateSettings({ speechStyle: style })} />
+        ))}
+      </View>
+      <Text>Facing target within</Text>
+      <View style={styles.chipsRow}>
+        {speechFacingOptions.map((deg) => (
+          <Chip key={deg} text={`${deg}°`} selected={settings.speechFacingDeg === deg} onPress={() => updateSettings({ speechFacingDeg: deg })} />
+        ))}
+      </View>
+      <Text>Slightly off within</Text>
+      <View style={styles.chipsRow}>
+        {speechSlightOptions.map((deg) => (
+          <Chip key={deg} text={`${deg}°`} selected={settings.speechSlightDeg === deg} onPress={() => updateSettings({ speechSlightDeg: deg })} />
+        ))}
+      </View>
+      <Text style={styles.hint}>
+        e.g. {[0, -settings.speechFacingDeg - 1, 60, 160].map((err) => `"${spokenInstruction({ direction: err < 0 ? 'left' : 'right', errorDeg: err }, speech)}"`).join(', ')}
+      </Text>
+
+      <Text style={styles.label}>Haptic Patterns</Text>
+      <TouchableOpacity
+        accessibilityRole="button"
+        accessibilityLabel="Edit haptic patterns"
+        onPress={() => router.push('/haptic-patterns')}
+        style={styles.chip}
+      >
+        <Text style={styles.chipText}>
+          Edit and Preview Patterns{Object.keys(settings.hapticPatterns).length > 0 ? ` (${Object.keys(settings.hapticPatterns).length} customized)` : ''}
+        </Text>
+      </TouchableOpacity>
+
+      <Text style={styles.label}>Route</Text>
+      {settings.route.length === 0 ? <Text>No waypoints yet. Guidance needs at least one.</Text> : null}
+      {settings.route.map((wp, i) => (
+        <WaypointRow
+          key={wp.waypointId}
+          waypoint={wp}
+          index={i}
+          isCurrent={i === Math.min(routeIndex, settings.route.length - 1)}
+          onChange={(updates) => updateSettings({ route: settings.route.map((w) => (w.waypointId === wp.waypointId ? { ...w, ...updates } : w)) })}
+          onMove={(delta) => {
+            const j = i + delta;
+            if (j < 0 || j >= settings.route.length) return;
+            const route = [...settings.route];
+            [route[i], route[j]] = [route[j], route[i]];
+            updateSettings({ route });
+          }}
+          onRemove={() => updateSettings({ route: settings.route.filter((w) => w.waypointId !== wp.waypointId) })}
+        />
+      ))}
+      <TouchableOpacity
+        accessibilityRole="button"
+        accessibilityLabel="Add waypoint at current location"
+        onPress={async () => {
+          let position: { latitude: number; longitude: number } | null;
+          try {
+            position = await currentPosition(settings.sensorSource);
+          } catch (e) {
+            // Location services switched off, or no fix before the request gave up.
+            console.warn('Could not get the current location', e);
+            alert('Could not get the current location. Check that location services are on and try again.');
+            return;
+          }
+          if (!position) {
+            alert('Location permission is needed to add a waypoint here.');
+            return;
+          }
+          const waypoint: Waypoint = { waypointId: generateUuidV4(), name: `Waypoint ${settings.route.length + 1}`, ...position };
+          updateSettings({ route: [...settings.route, waypoint] });
+        }}
+        style={[styles.chip, styles.primaryBtn]}
+      >
+        <Text style={styles.primaryBtnText}>Add Current Location</Text>
+      </TouchableOpacity>
+      {settings.route.length > 1 ? (
+        <TouchableOpacity
+          accessibilityRole="button"
+          accessibilityLabel="Restart route from the first waypoint"
+          onPress={() => setRouteIndex(0)}
+          style={styles.chip}
+        >
+          <Text style={styles.chipText}>Restart Route (now guiding to waypoint {Math.min(routeIndex, settings.route.length - 1) + 1})</Text>
+        </TouchableOpacity>
+      ) : null}
+
+      <Text style={{ marginTop: 16 }}>Tip: Move the phone in a figure-eight to recalibrate the compass.</Text>
+    </ScrollView>
+  );
+}
+
+function WaypointRow({
+  waypoint,
+  index,
+  isCurrent,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  waypoint: Waypoint;
+  index: number;
+  isCurrent: boolean;
+  onChange: (updates: Partial<Omit<Waypoint, 'waypointId'>>) => void;
+  onMove: (delta: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  const [name, setName] = useState(waypoint.name);
+  const [latInput, setLatInput] = useState(String(waypoint.latitude));
+  const [lonInput, setLonInput] = useState(String(waypoint.longitude));
+
+  return (
+    <View style={[styles.waypoint, isCurrent && styles.waypointCurrent]}>
+      <View style={styles.rowBetween}>
+        <Text style={styles.label}>{index + 1}.</Text>
+        <TextInput
+          style={[styles.input, { flex: 1, marginLeft: 8 }]}
+          accessibilityLabel={`Waypoint ${index + 1} name`}
+          value={name}
+          onChangeText={setName}
+          onBlur={() => {
+            if (name.trim()) onChange({ name: name.trim() });
+          }}
+        />
+      </View>
+      <View style={styles.chipsRow}>
         <TextInput
-          style={styles.input}
+          style={[styles.input, { flex: 1 }]}
           keyboardType="numbers-and-punctuation"
-          placeholder="e.g., 37.7749"
+          accessibilityLabel={`Waypoint ${index + 1} latitude`}
+          placeholder="Latitude"
           placeholderTextColor="#9CA3AF"
           value={latInput}
           onChangeText={setLatInput}
           onBlur={() => {
             const v = Number(latInput);
-            if (!Number.isNaN(v)) updateSettings({ targetLat: v });
+            if (latInput !== '' && !Number.isNaN(v)) onChange({ latitude: v });
           }}
         />
-        <Text>Longitude</Text>
         <TextInput
-          style={styles.input}
+          style={[styles.input, { flex: 1 }]}
           keyboardType="numbers-and-punctuation"
-          placeholder="e.g., -122.4194"
+          accessibilityLabel={`Waypoint ${index + 1} longitude`}
+          placeholder="Longitude"
           placeholderTextColor="#9CA3AF"
           value={lonInput}
           onChangeText={setLonInput}
           onBlur={() => {
             const v = Number(lonInput);
-            if (!Number.isNaN(v)) updateSettings({ targetLon: v });
+            if (lonInput !== '' && !Number.isNaN(v)) onChange({ longitude: v });
           }}
         />
-        <TouchableOpacity
-          accessibilityRole="button"
-          accessibilityLabel="Set target to current location"
-          onPress={async () => {
-            const { status } = await Location.requestForegroundPermissionsAsync();
-            if (status !== 'granted') return;
-            const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
-            setLatInput(String(pos.coords.latitude));
-            setLonInput(String(pos.coords.longitude));
-            updateSettings({ targetLat: pos.coords.latitude, targetLon: pos.coords.longitude });
-          }}
-          style={[styles.chip, styles.primaryBtn]}
-        >
-          <Text style={styles.primaryBtnText}>Use Current Location</Text>
-        </TouchableOpacity>
       </View>
-
-      <Text style={{ marginTop: 16 }}>Tip: Move the phone in a figure-eight to recalibrate the compass.</Text>
+      <View style={styles.chipsRow}>
+        <Chip text={`Move waypoint ${index + 1} up`} label="↑" onPress={() => onMove(-1)} />
+        <Chip text={`Move waypoint ${index + 1} down`} label="↓" onPress={() => onMove(1)} />
+        <Chip text={`Remove waypoint ${index + 1}`} label="Remove" onPress={onRemove} />
+      </View>
     </View>
   );
 }
 
-function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+async function currentPosition(source: Settings['sensorSource']): Promise<{ latitude: number; longitude: number } | null> {
+  if (source === 'simulated') return getSimulatorState().position;
+  const cached = getLatestFix();
+  if (cached) return { latitude: cached.latitude, longitude: cached.longitude };
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') return null;
+  const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+  return { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
+}
+
+function Chip({ text, label, selected, onPress }: { text: string; label?: string; selected?: boolean; onPress: () => void }) {
   return (
     <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
-      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{label ?? text}</Text>
     </TouchableOpacity>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     padding: 16,
     gap: 12,
   },
@@ -143,6 +412,16 @@ const styles = StyleSheet.create({
     color: 'white',
     fontSize: 14,
   },
+  waypoint: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    padding: 8,
+    gap: 8,
+  },
+  waypointCurrent: {
+    borderColor: '#2563eb',
+    borderWidth: 2,
+  },
   primaryBtn: {
     backgroundColor: '#2563eb',
     borderColor: '#2563eb',
@@ -154,6 +433,10 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '600',
   },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
 });
 
 
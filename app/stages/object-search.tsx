@@ -1,34 +1,70 @@
 import { Text, View } from '@/components/Themed';
+import { useProtocol } from '@/components/useProtocol';
+import { useRemoteStatus } from '@/components/useRemote';
+import { useStageActions } from '@/components/useStageActions';
+import { useApp } from '@/context/AppContext';
+import { useRouter } from 'expo-router';
 import React, { useEffect, useRef, useState } from 'react';
-import { StyleSheet, TouchableOpacity } from 'react-native';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
 
 export default function ObjectSearchStage() {
-  const [start, setStart] = useState<number | undefined>();
-  const [elapsed, setElapsed] = useState(0);
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const router = useRouter();
+  const { settings } = useApp();
+  const { activeRun, current, currentSession: session } = useProtocol();
+  const { startStage, markObjectFound, endStage } = useStageActions();
+  const remote = useRemoteStatus();
+  const [now, setNow] = useState(Date.now());
+  const start = session?.startTime;
+  const limit = settings.searchTimeLimitSec;
+  const ending = useRef(false);
 
   useEffect(() => {
-    if (start) {
-      timerRef.current = setInterval(() => {
-        setElapsed(Math.floor((Date.now() - start) / 1000));
-      }, 500);
-    }
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
+    if (!start) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
   }, [start]);
 
+  const inStep = !!activeRun && current?.step === 'object_search' && !!session;
+  const objects = session?.searchObjects ?? [];
+
+  // The time limit itself is enforced at the root (useSearchTimeLimit), so it holds on any screen.
+  const endSearch = () => {
+    if (ending.current) return;
+    ending.current = endStage();
+  };
+
+  if (!inStep || !session) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Object Localization (No Guidance)</Text>
+        <Text>This task runs as part of a protocol run. Start or resume one to continue.</Text>
+        <Button text="Go to Protocol" onPress={() => router.replace('/protocol')} />
+      </View>
+    );
+  }
+
+  const elapsed = start ? Math.floor(((session.endTime ?? now) - start) / 1000) : 0;
+
   return (
-    <View style={styles.container}>
+    <ScrollView contentContainerStyle={styles.container}>
       <Text style={styles.title}>Object Localization (No Guidance)</Text>
-      <Text>Elapsed Time: {formatSeconds(elapsed)}</Text>
-      <View style={{ height: 16 }} />
-      <Button text={start ? 'Running…' : 'Start Search'} onPress={() => setStart(Date.now())} disabled={!!start} />
-      <View style={{ height: 8 }} />
-      <Button text="Mark Object Found" onPress={() => { /* success stub */ }} />
-      <View style={{ height: 8 }} />
-      <Button text="End Search" onPress={() => setStart(undefined)} />
-    </View>
+      <Text>
+        Elapsed Time: {formatSeconds(elapsed)}
+        {limit > 0 ? ` of ${formatSeconds(limit)}` : ''}
+      </Text>
+      {session.objectFound ? <Text>All objects found after {session.searchDurationSeconds}s.</Text> : null}
+      {remote.role === 'participant' ? <Text>Researcher console: {remote.peerConnected ? 'connected' : 'not connected'}</Text> : null}
+      <Button text={start ? 'Running…' : 'Start Search'} disabled={!!start} onPress={startStage} />
+      {objects.map((o, i) => (
+        <View key={i} style={styles.row}>
+          <Text style={{ flex: 1 }}>
+            {o.name}: {o.foundAt ? `found at ${formatSeconds(Math.floor((o.foundAt - (start ?? o.foundAt)) / 1000))}` : 'not found'}
+          </Text>
+          <Button text={`Mark ${o.name} Found`} disabled={!!o.foundAt} onPress={() => markObjectFound(i)} />
+        </View>
+      ))}
+      <Button text="End Search" disabled={!start} onPress={endSearch} />
+    </ScrollView>
   );
 }
 
@@ -48,7 +84,7 @@ function formatSeconds(total: number): string {
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     padding: 16,
     gap: 12,
   },
@@ -57,6 +93,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 8,
   },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   button: {
     backgroundColor: '#111827',
     paddingVertical: 12,
@@ -69,5 +110,3 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 });
-
-
@@ -1,37 +1,72 @@
 import { Text, View } from '@/components/Themed';
-import { useApp } from '@/context/AppContext';
-import React, { useEffect, useRef, useState } from 'react';
+import { useProtocol } from '@/components/useProtocol';
+import { useRemoteStatus } from '@/components/useRemote';
+import { useStageActions } from '@/components/useStageActions';
+import { FEEDBACK_MODE_ROUTES } from '@/lib/protocol';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
 import { StyleSheet, TouchableOpacity } from 'react-native';
 
 export default function RedDotStage() {
-  const { addSession } = useApp();
-  const [start, setStart] = useState<number | undefined>();
-  const [elapsed, setElapsed] = useState(0);
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const router = useRouter();
+  const { activeRun, current, currentSession: session } = useProtocol();
+  const { startStage, logEvent, undoLastEvent, endStage } = useStageActions();
+  const remote = useRemoteStatus();
+  const [now, setNow] = useState(Date.now());
+  const start = session?.startTime;
 
+  // Elapsed time comes from the session, so it survives leaving and resuming the step.
   useEffect(() => {
-    if (start) {
-      timerRef.current = setInterval(() => {
-        setElapsed(Math.floor((Date.now() - start) / 1000));
-      }, 500);
-    }
-    return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
-    };
+    if (!start) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
   }, [start]);
 
+  if (!activeRun || current?.step !== 'red_dot' || !session) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Red Dot Navigation</Text>
+        <Text>This task runs as part of a protocol run. Start or resume one to continue.</Text>
+        <Button text="Go to Protocol" onPress={() => router.replace('/protocol')} />
+      </View>
+    );
+  }
+
+  const elapsed = start ? Math.floor((now - start) / 1000) : 0;
+  const events = session.taskEvents ?? [];
+  const checkpoints = events.filter((e) => e.type === 'checkpoint').length;
+  const errors = events.filter((e) => e.type === 'error').length;
+  const last = events[events.length - 1];
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Red Dot Navigation</Text>
+      <Text>
+        Condition: {session.feedbackMode.replace('_', ' ')} · Participant {session.participantId.slice(0, 8)}
+      </Text>
       <Text>Elapsed Time: {formatSeconds(elapsed)}</Text>
+      <Text>
+        Checkpoints: {checkpoints} · Errors: {errors}
+      </Text>
+      {remote.role === 'participant' ? <Text>Researcher console: {remote.peerConnected ? 'connected' : 'not connected'}</Text> : null}
       <View style={{ height: 16 }} />
-      <Button text={start ? 'Running…' : 'Start Task'} onPress={() => setStart(Date.now())} disabled={!!start} />
+      <Button text={start ? 'Running…' : 'Start Task'} onPress={startStage} disabled={!!start} />
+      <View style={{ height: 8 }} />
+      <Button text="Open Guidance" onPress={() => router.push(FEEDBACK_MODE_ROUTES[session.feedbackMode])} />
+      <View style={{ height: 8 }} />
+      <Button text="Checkpoint Reached" disabled={!start} onPress={() => logEvent('checkpoint')} />
       <View style={{ height: 8 }} />
-      <Button text="Checkpoint Reached" onPress={() => { /* log checkpoint stub */ }} />
+      <Button text="Log Error" disabled={!start} onPress={() => logEvent('error')} />
       <View style={{ height: 8 }} />
-      <Button text="Log Error" onPress={() => { /* log error stub */ }} />
+      <Button
+        text={last ? `Undo ${last.type === 'error' ? 'Error' : 'Checkpoint'} at ${formatSeconds(Math.floor((last.at - (start ?? last.at)) / 1000))}` : 'Undo Last Event'}
+        disabled={!last}
+        onPress={undoLastEvent}
+      />
       <View style={{ height: 8 }} />
-      <Button text="End Task" onPress={() => setStart(undefined)} />
+      <Button text="End Task: Completed" disabled={!start} onPress={() => endStage({ completed: true })} />
+      <View style={{ height: 8 }} />
+      <Button text="End Task: Incomplete" disabled={!start} onPress={() => endStage({ completed: false })} />
     </View>
   );
 }
@@ -73,5 +108,3 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 });
-
-
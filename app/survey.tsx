@@ -1,10 +1,16 @@
 import { Text, View } from '@/components/Themed';
+import { useProtocol } from '@/components/useProtocol';
+import { useStrings } from '@/components/useStrings';
 import { useApp } from '@/context/AppContext';
+import { conditionSessionId } from '@/lib/protocol';
 import React, { useState } from 'react';
 import { StyleSheet, TextInput, TouchableOpacity } from 'react-native';
 
 export default function SurveyScreen() {
   const { addSurvey, sessions } = useApp();
+  const { activeRun, current, completeStep } = useProtocol();
+  const inRun = !!activeRun && current?.step === 'survey';
+  const { t } = useStrings();
   const [ease, setEase] = useState(3);
   const [clarity, setClarity] = useState(3);
   const [confidence, setConfidence] = useState(3);
@@ -12,26 +18,28 @@ export default function SurveyScreen() {
 
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Post-Task Survey</Text>
-      <SliderRow label="Ease of use" value={ease} onChange={setEase} />
-      <SliderRow label="Clarity of guidance" value={clarity} onChange={setClarity} />
-      <SliderRow label="Spatial confidence" value={confidence} onChange={setConfidence} />
-      <Text accessibilityRole="header" style={{ marginTop: 12 }}>Additional comments</Text>
+      <Text style={styles.title}>{t('survey.title')}</Text>
+      <SliderRow label={t('survey.ease')} value={ease} onChange={setEase} />
+      <SliderRow label={t('survey.clarity')} value={clarity} onChange={setClarity} />
+      <SliderRow label={t('survey.confidence')} value={confidence} onChange={setConfidence} />
+      <Text accessibilityRole="header" style={{ marginTop: 12 }}>{t('survey.comments')}</Text>
       <TextInput
-        accessibilityLabel="Additional comments"
+        accessibilityLabel={t('survey.comments')}
         style={styles.input}
         multiline
         value={feedback}
         onChangeText={setFeedback}
-        placeholder="Type here"
+        placeholder={t('survey.placeholder')}
       />
       <Button
-        text="Submit Survey"
+        text={t('survey.submit')}
         onPress={() => {
-          const sessionId = sessions[sessions.length - 1]?.sessionId;
-          if (!sessionId) return alert('No session found');
+          // Within a protocol run the survey rates that run's condition.
+          const sessionId = inRun ? conditionSessionId(activeRun) : sessions[sessions.length - 1]?.sessionId;
+          if (!sessionId) return alert(t('survey.no_session'));
           addSurvey({ sessionId, easeOfUse: ease, clarityOfGuidance: clarity, spatialConfidence: confidence, feedbackText: feedback });
-          alert('Survey saved');
+          alert(t('survey.saved'));
+          if (inRun) completeStep('survey');
         }}
       />
     </View>
@@ -0,0 +1,180 @@
+import { Text, View } from '@/components/Themed';
+import { useStrings } from '@/components/useStrings';
+import { FeedbackMode, useApp } from '@/context/AppContext';
+import { cuesForMode, playTrainingCue, TrainingCue } from '@/lib/trainingCues';
+import { useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+const QUIZ_LENGTH = 8;
+
+export default function TrainingScreen() {
+  const params = useLocalSearchParams<{ participantId?: string; mode?: FeedbackMode }>();
+  const { participants, settings, updateParticipant } = useApp();
+  const participant = participants.find((p) => p.participantId === params.participantId);
+  const { locale, t, speak, stopSpeech } = useStrings(participant?.participantId);
+  const mode: FeedbackMode = params.mode ?? 'audio';
+  const cues = useMemo(() => cuesForMode(mode), [mode]);
+  const stopRef = useRef<(() => void) | null>(null);
+  const [quiz, setQuiz] = useState<TrainingCue[] | null>(null);
+  const [answers, setAnswers] = useState<boolean[]>([]);
+
+  useEffect(
+    () => () => {
+      stopRef.current?.();
+      stopSpeech();
+    },
+    []
+  );
+
+  const play = (cue: TrainingCue) => {
+    stopRef.current?.();
+    stopRef.current = playTrainingCue(mode, cue, settings, locale);
+  };
+
+  const demonstrate = (cue: TrainingCue) => {
+    stopRef.current?.();
+    stopSpeech();
+    // Say what the cue means first, then let the participant feel or hear it.
+    speak(t(`cue.${cue}`), { rate: 1.0, onDone: () => play(cue) });
+  };
+
+  const startQuiz = () => {
+    const trials = Array.from({ length: QUIZ_LENGTH }, () => cues[Math.floor(Math.random() * cues.length)]);
+    setQuiz(trials);
+    setAnswers([]);
+    speak(t('training.speech_intro'), { rate: 1.0, onDone: () => play(trials[0]) });
+  };
+
+  const answer = (choice: TrainingCue) => {
+    if (!quiz) return;
+    const actual = quiz[answers.length];
+    const correct = choice === actual;
+    const next = [...answers, correct];
+    setAnswers(next);
+    stopRef.current?.();
+    const feedback = correct ? t('training.speech_correct') : t('training.speech_incorrect', { cue: t(`cue.${actual}`) });
+    if (next.length < quiz.length) {
+      speak(feedback, { rate: 1.0, onDone: () => play(quiz[next.length]) });
+      return;
+    }
+    const score = next.filter(Boolean).length;
+    speak(`${feedback}. ${t('training.speech_complete', { correct: score, total: quiz.length })}`, { rate: 1.0 });
+    if (participant) {
+      updateParticipant(participant.participantId, {
+        trainingResults: [
+          ...(participant.trainingResults ?? []),
+          { feedbackMode: mode, trials: quiz.length, correct: score, accuracy: score / quiz.length, completedAt: Date.now() },
+        ],
+      });
+    }
+  };
+
+  const quizDone = quiz != null && answers.length >= quiz.length;
+  const lastResult = participant?.trainingResults?.filter((r) => r.feedbackMode === mode).slice(-1)[0];
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>{t('training.title', { mode: t(`mode.${mode}`) })}</Text>
+      <Text>{participant ? t('training.participant', { id: participant.participantId }) : t('training.no_participant')}</Text>
+      {lastResult ? <Text>{t('training.last_accuracy', { percent: Math.round(lastResult.accuracy * 100) })}</Text> : null}
+
+      <View style={styles.block}>
+        <Text style={styles.label}>{t('training.learn')}</Text>
+        {cues.map((cue) => (
+          <Button key={cue} text={t('training.play', { cue: t(`cue.${cue}`) })} onPress={() => demonstrate(cue)} />
+        ))}
+      </View>
+
+      <View style={styles.block}>
+        <Text style={styles.label}>{t('training.quiz')}</Text>
+        {quiz == null || quizDone ? (
+          <>
+            {quizDone ? (
+              <Text accessibilityLiveRegion="polite">
+                {t('training.score', {
+                  correct: answers.filter(Boolean).length,
+                  total: quiz.length,
+                  percent: Math.round((answers.filter(Boolean).length / quiz.length) * 100),
+                })}
+              </Text>
+            ) : null}
+            <Button text={quizDone ? t('training.retake') : t('training.start')} onPress={startQuiz} />
+          </>
+        ) : (
+          <>
+            <Text>{t('training.progress', { index: answers.length + 1, total: quiz.length })}</Text>
+            <Button text={t('training.replay')} onPress={() => play(quiz[answers.length])} />
+            <View style={styles.row}>
+              {cues.map((cue) => (
+                <Chip key={cue} text={t(`cue.${cue}`)} onPress={() => answer(cue)} />
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+function Chip({ text, onPress }: { text: string; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.chip} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function Button({ text, onPress }: { text: string; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.button} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.buttonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  block: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 16,
+  },
+  button: {
+    backgroundColor: '#111827',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
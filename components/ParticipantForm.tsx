@@ -0,0 +1,133 @@
+import { Text, View } from '@/components/Themed';
+import { LOCALE_LABELS, LOCALES } from '@/lib/i18n';
+import { AGE_MAX, AGE_MIN, GENDER_SUGGESTIONS, MOBILITY_AIDS, ParticipantDraft, ParticipantErrors, VISION_STATUSES } from '@/lib/participants';
+import React from 'react';
+import { StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+// Every editable Participant field. Errors are only shown for fields passed in `errors`, so
+// callers decide when validation feedback appears (e.g. after the first save attempt).
+export default function ParticipantForm({
+  draft,
+  errors,
+  onChange,
+}: {
+  draft: ParticipantDraft;
+  errors: ParticipantErrors;
+  onChange: (updates: Partial<ParticipantDraft>) => void;
+}) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Age</Text>
+      <TextInput
+        keyboardType="number-pad"
+        value={draft.age}
+        onChangeText={(age) => onChange({ age })}
+        style={[styles.input, errors.age && styles.inputError]}
+        placeholder={`${AGE_MIN}–${AGE_MAX}`}
+        accessibilityLabel="Participant age"
+      />
+      <FieldError message={errors.age} />
+
+      <Text style={styles.label}>Gender (optional)</Text>
+      <TextInput
+        value={draft.gender}
+        onChangeText={(gender) => onChange({ gender })}
+        style={[styles.input, errors.gender && styles.inputError]}
+        accessibilityLabel="Participant gender"
+      />
+      <View style={styles.row}>
+        {GENDER_SUGGESTIONS.map((g) => (
+          <Chip key={g} text={g} selected={draft.gender === g} onPress={() => onChange({ gender: g })} />
+        ))}
+      </View>
+      <FieldError message={errors.gender} />
+
+      <Text style={styles.label}>Vision Status</Text>
+      <View style={styles.row}>
+        {VISION_STATUSES.map((v) => (
+          <Chip key={v} text={v.replace('_', ' ')} selected={draft.visionStatus === v} onPress={() => onChange({ visionStatus: v })} />
+        ))}
+      </View>
+      <FieldError message={errors.visionStatus} />
+
+      <Text style={styles.label}>Mobility Aid (optional)</Text>
+      <View style={styles.row}>
+        {MOBILITY_AIDS.map((m) => (
+          <Chip
+            key={m}
+            text={m.replace('_', ' ')}
+            selected={draft.mobilityAid === m}
+            onPress={() => onChange({ mobilityAid: draft.mobilityAid === m ? undefined : m })}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.label}>Language</Text>
+      <View style={styles.row}>
+        {LOCALES.map((l) => (
+          <Chip key={l} text={LOCALE_LABELS[l]} selected={draft.language === l} onPress={() => onChange({ language: l })} />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <Text style={styles.error} accessibilityLiveRegion="polite">
+      {message}
+    </Text>
+  );
+}
+
+function Chip({ text, selected, onPress }: { text: string; selected?: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, selected && styles.chipSelected]} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={selected ? styles.chipTextSelected : styles.chipText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  label: {
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  inputError: {
+    borderColor: '#dc2626',
+  },
+  error: {
+    color: '#dc2626',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontSize: 14,
+  },
+});
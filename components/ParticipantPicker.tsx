@@ -0,0 +1,88 @@
+import { Text, View } from '@/components/Themed';
+import { Participant } from '@/context/AppContext';
+import { describeParticipant, matchesParticipantQuery } from '@/lib/participants';
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+// Searchable participant list, newest first. Long lists are cut off; searching narrows them.
+const MAX_ROWS = 20;
+
+export default function ParticipantPicker({
+  participants,
+  selectedId,
+  onSelect,
+}: {
+  participants: Participant[];
+  selectedId?: string;
+  onSelect: (p: Participant) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const matches = useMemo(
+    () =>
+      participants
+        .filter((p) => matchesParticipantQuery(p, query))
+        .sort((a, b) => b.createdAt - a.createdAt),
+    [participants, query]
+  );
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search by ID, age, vision, language…"
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={styles.input}
+        accessibilityLabel="Search participants"
+      />
+      {participants.length === 0 ? <Text>No participants yet.</Text> : null}
+      {participants.length > 0 && matches.length === 0 ? <Text>No participants match “{query}”.</Text> : null}
+      {matches.slice(0, MAX_ROWS).map((p) => {
+        const selected = p.participantId === selectedId;
+        return (
+          <TouchableOpacity
+            key={p.participantId}
+            onPress={() => onSelect(p)}
+            style={[styles.row, selected && styles.rowSelected]}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+            accessibilityLabel={`Participant ${describeParticipant(p)}`}
+          >
+            <Text style={selected ? styles.rowTextSelected : undefined}>{describeParticipant(p)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+      {matches.length > MAX_ROWS ? <Text style={styles.hint}>{matches.length - MAX_ROWS} more; refine the search.</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  row: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  rowSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  rowTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,216 @@
+import { Text, View } from '@/components/Themed';
+import { useApp } from '@/context/AppContext';
+import { destinationPoint } from '@/lib/guidance';
+import { getSimulatorState, subscribeSimulator, updateSimulator } from '@/lib/simulator';
+import React, { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { View as DefaultView, PanResponder, Platform, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+const DIAL_SIZE = 140;
+const STEP_METERS = 1;
+// Where the simulated participant starts when no position has been entered yet.
+const START_OFFSET_METERS = 20;
+
+// Stand-in for the compass and GPS when Settings selects the simulated sensor source.
+// Drag the dial (or use the arrow keys on web) to turn; up/down walks along the heading.
+export default function SimulatorControls() {
+  const { settings } = useApp();
+  const sim = useSyncExternalStore(subscribeSimulator, getSimulatorState);
+  const [latInput, setLatInput] = useState('');
+  const [lonInput, setLonInput] = useState('');
+
+  const firstWaypoint = settings.route[0];
+  useEffect(() => {
+    if (sim.position || !firstWaypoint) return;
+    updateSimulator({ position: destinationPoint(firstWaypoint.latitude, firstWaypoint.longitude, 180, START_OFFSET_METERS) });
+  }, [sim.position, firstWaypoint]);
+
+  useEffect(() => {
+    if (!sim.position) return;
+    setLatInput(sim.position.latitude.toFixed(6));
+    setLonInput(sim.position.longitude.toFixed(6));
+  }, [sim.position]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+      if (e.key === 'ArrowLeft') turn(e.shiftKey ? -15 : -5);
+      else if (e.key === 'ArrowRight') turn(e.shiftKey ? 15 : 5);
+      else if (e.key === 'ArrowUp') walk(STEP_METERS);
+      else if (e.key === 'ArrowDown') walk(-STEP_METERS);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: (e) => pointDialAt(e.nativeEvent.locationX, e.nativeEvent.locationY),
+        onPanResponderMove: (e) => pointDialAt(e.nativeEvent.locationX, e.nativeEvent.locationY),
+      }),
+    []
+  );
+
+  const needleRotation = `${sim.heading}deg`;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Simulated Sensors</Text>
+      <View style={styles.row}>
+        <View
+          style={styles.dial}
+          accessibilityRole="adjustable"
+          accessibilityLabel="Simulated heading"
+          accessibilityValue={{ text: `${Math.round(sim.heading)} degrees` }}
+          accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+          onAccessibilityAction={(e) => turn(e.nativeEvent.actionName === 'increment' ? 5 : -5)}
+          {...panResponder.panHandlers}
+        >
+          <DefaultView pointerEvents="none" style={[styles.needle, { transform: [{ rotate: needleRotation }] }]}>
+            <DefaultView style={styles.needleTip} />
+            <DefaultView style={{ flex: 1 }} />
+          </DefaultView>
+          <Text pointerEvents="none" style={styles.dialText}>
+            {Math.round(sim.heading)}°
+          </Text>
+        </View>
+        <View style={styles.pad}>
+          <SmallButton text="↑ Step" onPress={() => walk(STEP_METERS)} />
+          <View style={styles.row}>
+            <SmallButton text="⟲ 15°" onPress={() => turn(-15)} />
+            <SmallButton text="⟳ 15°" onPress={() => turn(15)} />
+          </View>
+          <SmallButton text="↓ Step" onPress={() => walk(-STEP_METERS)} />
+        </View>
+      </View>
+      <View style={styles.row}>
+        <TextInput
+          style={styles.input}
+          keyboardType="numbers-and-punctuation"
+          accessibilityLabel="Simulated latitude"
+          placeholder="Latitude"
+          placeholderTextColor="#9CA3AF"
+          value={latInput}
+          onChangeText={setLatInput}
+          onBlur={() => applyTypedPosition(latInput, lonInput)}
+        />
+        <TextInput
+          style={styles.input}
+          keyboardType="numbers-and-punctuation"
+          accessibilityLabel="Simulated longitude"
+          placeholder="Longitude"
+          placeholderTextColor="#9CA3AF"
+          value={lonInput}
+          onChangeText={setLonInput}
+          onBlur={() => applyTypedPosition(latInput, lonInput)}
+        />
+      </View>
+      {Platform.OS === 'web' ? <Text style={styles.hint}>Arrow keys: ←/→ turn (Shift for 15°), ↑/↓ step.</Text> : null}
+    </View>
+  );
+}
+
+function pointDialAt(x: number, y: number) {
+  const dx = x - DIAL_SIZE / 2;
+  const dy = y - DIAL_SIZE / 2;
+  if (dx === 0 && dy === 0) return;
+  // Screen y grows downward, so north (0°) is straight up.
+  updateSimulator({ heading: (Math.atan2(dx, -dy) * 180) / Math.PI });
+}
+
+function turn(deltaDeg: number) {
+  updateSimulator({ heading: getSimulatorState().heading + deltaDeg });
+}
+
+function walk(meters: number) {
+  const { heading, position } = getSimulatorState();
+  if (!position) return;
+  updateSimulator({ position: destinationPoint(position.latitude, position.longitude, heading, meters) });
+}
+
+function applyTypedPosition(latText: string, lonText: string) {
+  const latitude = Number(latText);
+  const longitude = Number(lonText);
+  if (latText === '' || lonText === '' || Number.isNaN(latitude) || Number.isNaN(longitude)) return;
+  updateSimulator({ position: { latitude, longitude } });
+}
+
+function SmallButton({ text, onPress }: { text: string; onPress: () => void }) {
+  return (
+    <TouchableOpacity onPress={onPress} style={styles.smallButton} accessibilityRole="button" accessibilityLabel={text}>
+      <Text style={styles.smallButtonText}>{text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dial: {
+    width: DIAL_SIZE,
+    height: DIAL_SIZE,
+    borderRadius: DIAL_SIZE / 2,
+    borderWidth: 2,
+    borderColor: '#2563eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  needle: {
+    position: 'absolute',
+    width: 4,
+    height: DIAL_SIZE - 8,
+  },
+  needleTip: {
+    flex: 1,
+    borderRadius: 2,
+    backgroundColor: '#dc2626',
+  },
+  dialText: {
+    fontWeight: '700',
+  },
+  pad: {
+    alignItems: 'center',
+    gap: 6,
+  },
+  smallButton: {
+    backgroundColor: '#111827',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  smallButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
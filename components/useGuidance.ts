@@ -0,0 +1,175 @@
+import { Session, useApp, WaypointArrival } from '@/context/AppContext';
+import { noteHeadingError, startCueLog } from '@/lib/cueLog';
+import { createGuidanceEngine, GuidanceEngine, GuidanceListener, GuidanceState, routeTarget } from '@/lib/guidance';
+import { createHeadingFilter, HeadingFilter, HeadingFilterConfig } from '@/lib/headingFilter';
+import { getPositionStatus, subscribePositionStatus } from '@/lib/positionStream';
+import { createReplaySource, liveSensorSource, pickHeading, SensorSubscription } from '@/lib/sensors';
+import { createTraceRecorder, loadTrace } from '@/lib/sensorTrace';
+import { simulatedSensorSource } from '@/lib/simulator';
+import { clearMonitor, noteFixAccuracy, recordGuidance } from '@/lib/trialMonitor';
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+
+// Feeds the device compass and position into a guidance engine while `active`, and calls
+// `onUpdate` with every new state so the screen can render its cue. Live readings are
+// recorded against the active session; when a replay is selected the recorded trace is
+// played back instead of the sensors, and Settings can swap the sensors for the simulator.
+// Headings are smoothed before they reach the engine; traces keep the raw readings. Reaching a
+// waypoint logs it on the session and moves guidance on to the next one in the route. Cues the
+// screen emits meanwhile go to the session's cue log along with the current heading error, and
+// every state is also sampled for the researcher's live monitor. With `observeOnly` the hook
+// just feeds that monitor: nothing is recorded on the session and the route does not advance.
+export function useGuidance(active: boolean, onUpdate?: GuidanceListener, observeOnly: boolean = false) {
+  const { settings, sessions, activeSessionId, routeIndex, replaySessionId, updateSession, setRouteIndex, setReplaySessionId } = useApp();
+  const [heading, setHeading] = useState<number | null>(null);
+  const [guidance, setGuidance] = useState<GuidanceState | null>(null);
+  const [permission, setPermission] = useState<'granted' | 'denied' | 'undetermined' | 'unavailable'>('undetermined');
+  const engineRef = useRef<GuidanceEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createGuidanceEngine({ alignThresholdDeg: settings.alignThresholdDeg, arrivalRadiusM: settings.arrivalRadiusM, target: null });
+  }
+  const engine = engineRef.current;
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  const recordingSession = replaySessionId || observeOnly ? undefined : sessions.find((s) => s.sessionId === activeSessionId && !s.endTime);
+  const recordingSessionId = recordingSession?.sessionId;
+  // A replay is smoothed the way the participant's session was, not with today's settings.
+  const replayFilter = replaySessionId ? sessions.find((s) => s.sessionId === replaySessionId)?.headingFilter : undefined;
+  const filterType = replayFilter?.type ?? settings.headingFilterType;
+  const filterStrength = replayFilter?.strength ?? settings.headingFilterStrength;
+  const needsSessionUpdate =
+    recordingSession != null &&
+    (!recordingSession.hasSensorTrace || recordingSession.headingFilter?.type !== filterType || recordingSession.headingFilter?.strength !== filterStrength);
+  const filterRef = useRef<HeadingFilter | null>(null);
+
+  const target = useMemo(() => routeTarget(settings.route, routeIndex), [settings.route, routeIndex]);
+
+  const arrivalRef = useRef<(state: GuidanceState) => void>(() => {});
+  arrivalRef.current = (state) => {
+    if (observeOnly) return;
+    const reached = state.target;
+    // Only a started task is timed; arrivals while the researcher is still setting up are not data.
+    if (recordingSession?.startTime) {
+      const arrival: WaypointArrival = { waypointId: reached.waypointId, name: reached.name, index: reached.index, arrivedAt: state.timestamp };
+      // Built on the stored session, so arrivals in quick succession all land.
+      updateSession(recordingSession.sessionId, (latest) => {
+        const updates: Partial<Session> = { waypointArrivals: [...(latest.waypointArrivals ?? []), arrival] };
+        // Reaching the last waypoint completes the route.
+        if (reached.isFinal && latest.completionTimeSeconds == null && latest.startTime) {
+          updates.completionTimeSeconds = Math.round((state.timestamp - latest.startTime) / 100) / 10;
+        }
+        return updates;
+      });
+    }
+    if (!reached.isFinal) setRouteIndex(reached.index + 1);
+  };
+  const livePositionStatus = useSyncExternalStore(subscribePositionStatus, getPositionStatus);
+  const usingDevice = settings.sensorSource === 'device' && !replaySessionId;
+
+  useEffect(
+    () =>
+      engine.subscribe((state) => {
+        setGuidance(state);
+        noteHeadingError(state.errorDeg);
+        recordGuidance(state);
+        if (state.justArrived) arrivalRef.current(state);
+        onUpdateRef.current?.(state);
+      }),
+    [engine]
+  );
+
+  useEffect(() => {
+    engine.setSettings({
+      alignThresholdDeg: settings.alignThresholdDeg,
+      arrivalRadiusM: settings.arrivalRadiusM,
+      target,
+    });
+  }, [engine, settings.alignThresholdDeg, settings.arrivalRadiusM, target]);
+
+  useEffect(() => {
+    filterRef.current = createHeadingFilter({ type: filterType, strength: filterStrength });
+  }, [filterType, filterStrength]);
+
+  useEffect(() => {
+    if (!active || !needsSessionUpdate || !recordingSessionId) return;
+    const headingFilter: HeadingFilterConfig = { type: filterType, strength: filterStrength };
+    updateSession(recordingSessionId, { hasSensorTrace: true, headingFilter });
+  }, [active, needsSessionUpdate, recordingSessionId, filterType, filterStrength, updateSession]);
+
+  useEffect(() => {
+    if (!active) {
+      engine.reset();
+      setHeading(null);
+      setGuidance(null);
+      return;
+    }
+    let cancelled = false;
+    let subscription: SensorSubscription | null = null;
+    filterRef.current?.reset();
+    // An observer continues the history the feedback screen was building.
+    if (!observeOnly) clearMonitor();
+    const recorder = recordingSessionId ? createTraceRecorder(recordingSessionId) : null;
+    const stopCueLog = recordingSessionId ? startCueLog(recordingSessionId) : null;
+    (async () => {
+      let source = settings.sensorSource === 'simulated' ? simulatedSensorSource : liveSensorSource;
+      if (replaySessionId) {
+        const trace = await loadTrace(replaySessionId);
+        if (cancelled) return;
+        if (!trace) {
+          alert('No sensor trace recorded for this session');
+          setReplaySessionId(undefined);
+          return;
+        }
+        source = createReplaySource(trace);
+      }
+      const sub = await source.start({
+        onHeading: (reading) => {
+          recorder?.record({ kind: 'heading', ...reading });
+          const raw = pickHeading(reading, settings.useTrueNorth);
+          const value = filterRef.current ? filterRef.current.next(raw) : raw;
+          setHeading(value);
+          engine.updateHeading(value);
+        },
+        onPosition: (fix) => {
+          recorder?.record({ kind: 'position', ...fix });
+          noteFixAccuracy(fix.accuracy);
+          engine.updatePosition(fix);
+        },
+        onEnd: () => setReplaySessionId(undefined),
+      });
+      if (cancelled) {
+        sub.stop();
+        return;
+      }
+      subscription = sub;
+      setPermission(sub.permission);
+    })().catch((e) => {
+      // Location services switched off, or a trace that cannot be read.
+      if (cancelled) return;
+      console.warn('Failed to start guidance sensors', e);
+      if (replaySessionId) {
+        alert('Could not play back the sensor trace for this session');
+        setReplaySessionId(undefined);
+        return;
+      }
+      setPermission('unavailable');
+      alert('Could not start the compass or location. Check that location services are on.');
+    });
+    return () => {
+      cancelled = true;
+      subscription?.stop();
+      recorder?.stop();
+      stopCueLog?.();
+      engine.reset();
+    };
+  }, [engine, active, observeOnly, settings.useTrueNorth, settings.sensorSource, recordingSessionId, replaySessionId, setReplaySessionId]);
+
+  return {
+    heading,
+    guidance,
+    target,
+    permission,
+    positionStatus: usingDevice ? livePositionStatus : 'ok',
+    replaying: replaySessionId != null,
+  };
+}
@@ -0,0 +1,16 @@
+import { useApp } from '@/context/AppContext';
+import { HapticPatternName, playPattern, resolvePattern, stopHaptics } from '@/lib/hapticPatterns';
+import { useCallback, useRef } from 'react';
+
+// Plays library patterns by name, using the encodings currently configured in Settings.
+export function useHapticPlayer() {
+  const { settings } = useApp();
+  const overridesRef = useRef(settings.hapticPatterns);
+  overridesRef.current = settings.hapticPatterns;
+
+  const play = useCallback((name: HapticPatternName) => {
+    playPattern(resolvePattern(name, overridesRef.current));
+  }, []);
+
+  return { play, stop: stopHaptics };
+}
@@ -0,0 +1,121 @@
+import { FeedbackMode, Session, useApp } from '@/context/AppContext';
+import {
+  advanceRun,
+  attachSession,
+  createRun,
+  currentStep,
+  isSessionStep,
+  PROTOCOL_STEP_ROUTES,
+  ProtocolRun,
+  ProtocolStep,
+} from '@/lib/protocol';
+import { generateUuidV4 } from '@/lib/uuid';
+import { useRouter } from 'expo-router';
+import { useCallback } from 'react';
+
+// Drives protocol runs: creates the Session for each step as it is entered, makes it the active
+// session, and navigates to the step's screen. Stage screens call `completeStep` when done.
+export function useProtocol() {
+  const router = useRouter();
+  const {
+    protocolRuns,
+    activeRunId,
+    sessions,
+    settings,
+    activeSessionId,
+    addSession,
+    updateSession,
+    setActiveSessionId,
+    addProtocolRun,
+    updateProtocolRun,
+    setActiveRunId,
+  } = useApp();
+  const activeRun = protocolRuns.find((r) => r.runId === activeRunId && !r.completedAt);
+  const current = activeRun ? currentStep(activeRun) : null;
+  const currentSession = current?.sessionId ? sessions.find((s) => s.sessionId === current.sessionId) : undefined;
+
+  // Ensures the run's current step has its Session and that it is the active one.
+  const enter = useCallback(
+    (run: ProtocolRun): ProtocolRun => {
+      const step = currentStep(run);
+      if (!step || !isSessionStep(step.step)) return run;
+      let sessionId = step.sessionId;
+      let next = run;
+      if (!sessionId) {
+        sessionId = addSession({ participantId: run.participantId, feedbackMode: run.feedbackMode, stage: step.step, protocolRunId: run.runId }).sessionId;
+        next = attachSession(run, run.currentIndex, sessionId);
+      }
+      // Re-activating the same session would restart its route.
+      if (sessionId !== activeSessionId) setActiveSessionId(sessionId);
+      return next;
+    },
+    [activeSessionId, addSession, setActiveSessionId]
+  );
+
+  const open = useCallback(
+    (run: ProtocolRun) => {
+      const step = currentStep(run);
+      if (step) router.push(PROTOCOL_STEP_ROUTES[step.step]);
+      else router.push('/protocol');
+    },
+    [router]
+  );
+
+  const startRun = useCallback(
+    (participantId: string, feedbackMode: FeedbackMode, steps: ProtocolStep[] = settings.protocolSteps) => {
+      const run = enter(createRun(generateUuidV4(), participantId, feedbackMode, steps, Date.now()));
+      addProtocolRun(run);
+      setActiveRunId(run.runId);
+      open(run);
+      return run;
+    },
+    [settings.protocolSteps, enter, addProtocolRun, setActiveRunId, open]
+  );
+
+  const resumeRun = useCallback(
+    (runId: string) => {
+      const run = protocolRuns.find((r) => r.runId === runId);
+      if (!run || run.completedAt) return;
+      const entered = enter(run);
+      if (entered !== run) updateProtocolRun(entered);
+      setActiveRunId(runId);
+      open(entered);
+    },
+    [protocolRuns, enter, updateProtocolRun, setActiveRunId, open]
+  );
+
+  /**
+   * Finishes the active run's current step and moves on. `step` guards against a stale screen
+   * completing a step the run has already moved past. `results` are written to the step's
+   * session along with its end time; `skip` records a researcher override.
+   */
+  const completeStep = useCallback(
+    (step: ProtocolStep, outcome: { results?: Partial<Session>; skip?: { reason: string } } = {}) => {
+      if (!activeRun) return;
+      const current = currentStep(activeRun);
+      if (!current || current.step !== step) return;
+      const now = Date.now();
+      const { results, skip } = outcome;
+      const session = current.sessionId ? sessions.find((s) => s.sessionId === current.sessionId) : undefined;
+      if (session && (results || !session.endTime)) {
+        updateSession(session.sessionId, {
+          endTime: session.endTime ?? now,
+          completionStatus: skip ? 'incomplete' : (session.completionStatus ?? 'completed'),
+          ...results,
+        });
+      }
+      const next = enter(advanceRun(activeRun, now, skip));
+      updateProtocolRun(next);
+      if (next.completedAt) {
+        setActiveRunId(undefined);
+        router.replace('/protocol');
+      } else {
+        const nextStep = currentStep(next);
+        if (nextStep) router.replace(PROTOCOL_STEP_ROUTES[nextStep.step]);
+      }
+    },
+    [activeRun, sessions, updateSession, enter, updateProtocolRun, setActiveRunId, router]
+  );
+
+  return { activeRun, current, currentSession, startRun, resumeRun, completeStep };
+}
@@ -0,0 +1,114 @@
+import { useProtocol } from '@/components/useProtocol';
+import { useStageActions } from '@/components/useStageActions';
+import { useApp } from '@/context/AppContext';
+import { FEEDBACK_MODE_ROUTES } from '@/lib/protocol';
+import {
+  connectRemote,
+  disconnectRemote,
+  getRemoteStatus,
+  onRemoteMessage,
+  ParticipantStatus,
+  RemoteCommand,
+  sendRemote,
+  subscribeRemoteStatus,
+} from '@/lib/remote';
+import { getMonitorSnapshot, pushSamples } from '@/lib/trialMonitor';
+import { useRouter } from 'expo-router';
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+
+const MONITOR_SEND_INTERVAL_MS = 1000;
+
+export function useRemoteStatus() {
+  return useSyncExternalStore(subscribeRemoteStatus, getRemoteStatus);
+}
+
+// Keeps the remote link in line with Settings. On the participant device it also carries out
+// the console's commands and reports the device's state and guidance samples back. Mounted
+// once, at the root.
+export function useRemoteLink() {
+  const router = useRouter();
+  const { settings, routeIndex, setRouteIndex, updateSession, updateProtocolRun } = useApp();
+  const { activeRun, current, currentSession: session } = useProtocol();
+  const actions = useStageActions();
+  const { peerConnected } = useRemoteStatus();
+  const role = settings.remoteRole;
+  const url = settings.remoteUrl.trim();
+  const secret = settings.remoteSecret;
+
+  useEffect(() => {
+    if (role === 'off' || !url || !secret) {
+      disconnectRemote();
+      return;
+    }
+    connectRemote(url, settings.remoteRoom, secret, role);
+  }, [role, url, settings.remoteRoom, secret]);
+
+  useEffect(() => {
+    if (role !== 'console') return;
+    return onRemoteMessage((message) => {
+      if (message.type === 'monitor') pushSamples(message.samples);
+    });
+  }, [role]);
+
+  const runRef = useRef<(command: RemoteCommand) => string | null>(() => null);
+  runRef.current = (command) => {
+    switch (command.kind) {
+      case 'start_stage':
+        return actions.startStage() ? null : 'No task step is waiting to start';
+      case 'end_stage':
+        return actions.endStage({ completed: command.completed }) ? null : 'No started step to end';
+      case 'log_event':
+        return actions.logEvent(command.event) ? null : 'Events are logged during a started red dot task';
+      case 'undo_event':
+        return actions.undoLastEvent() ? null : 'Nothing to undo';
+      case 'set_target':
+        if (command.routeIndex < 0 || command.routeIndex >= settings.route.length) return 'No such waypoint';
+        setRouteIndex(command.routeIndex);
+        return null;
+      case 'set_mode':
+        // Data already recorded belongs to the old condition; switching must not relabel it.
+        if (session?.startTime) return 'This session has already started under its mode';
+        if (session) updateSession(session.sessionId, { feedbackMode: command.mode });
+        if (activeRun) updateProtocolRun({ ...activeRun, feedbackMode: command.mode });
+        router.navigate(FEEDBACK_MODE_ROUTES[command.mode]);
+        return null;
+    }
+  };
+
+  useEffect(() => {
+    if (role !== 'participant') return;
+    return onRemoteMessage((message) => {
+      if (message.type !== 'command') return;
+      const error = runRef.current(message.command);
+      sendRemote({ type: 'ack', id: message.id, ok: error == null, error: error ?? undefined });
+    });
+  }, [role]);
+
+  const status: ParticipantStatus = {
+    participantId: session?.participantId ?? activeRun?.participantId,
+    feedbackMode: session?.feedbackMode ?? activeRun?.feedbackMode,
+    step: current?.step,
+    startedAt: session?.startTime,
+    checkpoints: session?.taskEvents?.filter((e) => e.type === 'checkpoint').length ?? 0,
+    errors: session?.taskEvents?.filter((e) => e.type === 'error').length ?? 0,
+    routeIndex,
+    waypoints: settings.route.map((w) => w.name),
+  };
+  const statusJson = JSON.stringify(status);
+  useEffect(() => {
+    if (role !== 'participant' || !peerConnected) return;
+    sendRemote({ type: 'status', status: JSON.parse(statusJson) });
+  }, [role, peerConnected, statusJson]);
+
+  // A newly connected console first gets the whole window, then whatever is new each second.
+  useEffect(() => {
+    if (role !== 'participant' || !peerConnected) return;
+    let sentUpTo = -Infinity;
+    const timer = setInterval(() => {
+      const samples = getMonitorSnapshot().samples.filter((s) => s.at > sentUpTo);
+      if (samples.length === 0) return;
+      if (sendRemote({ type: 'monitor', samples })) sentUpTo = samples[samples.length - 1].at;
+    }, MONITOR_SEND_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [role, peerConnected]);
+}
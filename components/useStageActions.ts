@@ -0,0 +1,147 @@
+import { useProtocol } from '@/components/useProtocol';
+import { useStrings } from '@/components/useStrings';
+import { Session, TaskEvent, useApp } from '@/context/AppContext';
+import { generateUuidV4 } from '@/lib/uuid';
+import { useCallback, useEffect, useRef } from 'react';
+
+// What the researcher can do to the protocol step in progress. Stage screens and the remote
+// console both go through these, so a remote tap records exactly what a local one would.
+export function useStageActions() {
+  const { settings, updateSession } = useApp();
+  const { current, currentSession: session, completeStep } = useProtocol();
+  const step = current?.step;
+
+  const startStage = useCallback(() => {
+    if (!session || session.startTime) return false;
+    const updates: Partial<Session> = { startTime: Date.now() };
+    // The object list is fixed when the search starts, so later settings changes do not alter it.
+    if (session.stage === 'object_search') updates.searchObjects = settings.searchObjectNames.map((name) => ({ name }));
+    updateSession(session.sessionId, updates);
+    return true;
+  }, [session, settings.searchObjectNames, updateSession]);
+
+  // Events are read from the stored session, not this render's copy, so quick taps or a remote
+  // command arriving before the next render each build on the one before.
+  const writeEvents = useCallback(
+    (edit: (events: TaskEvent[]) => TaskEvent[]) => {
+      if (!session) return;
+      updateSession(session.sessionId, (latest) => {
+        const events = edit(latest.taskEvents ?? []);
+        return { taskEvents: events, navigationErrors: events.filter((e) => e.type === 'error').length };
+      });
+    },
+    [session, updateSession]
+  );
+
+  const logEvent = useCallback(
+    (type: TaskEvent['type']) => {
+      if (step !== 'red_dot' || !session?.startTime) return false;
+      const event: TaskEvent = { eventId: generateUuidV4(), type, at: Date.now() };
+      writeEvents((events) => [...events, event]);
+      return true;
+    },
+    [step, session, writeEvents]
+  );
+
+  // Only the most recent event can be undone, which covers a mis-tap without rewriting history.
+  const undoLastEvent = useCallback(() => {
+    if (!session?.taskEvents?.length) return false;
+    writeEvents((events) => events.slice(0, -1));
+    return true;
+  }, [session, writeEvents]);
+
+  // Like events, found times build on the stored session so back-to-back marks both land.
+  const markObjectFound = useCallback(
+    (index: number) => {
+      if (!session?.searchObjects?.[index] || session.searchObjects[index].foundAt) return false;
+      const at = Date.now();
+      updateSession(session.sessionId, (latest) => {
+        const objects = latest.searchObjects;
+        if (!objects?.[index] || objects[index].foundAt) return {};
+        const next = objects.map((o, i) => (i === index ? { ...o, foundAt: at } : o));
+        const updates: Partial<Session> = { searchObjects: next };
+        if (next.every((o) => o.foundAt)) {
+          updates.objectFound = true;
+          updates.searchDurationSeconds = Math.round((at - (latest.startTime ?? at)) / 1000);
+        }
+        return updates;
+      });
+      return true;
+    },
+    [session, updateSession]
+  );
+
+  /**
+   * Finishes the current step with its results. For the red dot task, `completed` is the
+   * researcher's call and defaults to whether the final waypoint was reached; `timedOut` marks an
+   * object search cut off by its limit.
+   */
+  const endStage = useCallback(
+    (options: { completed?: boolean; timedOut?: boolean; end?: number } = {}) => {
+      if (step === 'break') {
+        completeStep('break');
+        return true;
+      }
+      if (!session?.startTime) return false;
+      const start = session.startTime;
+      const end = options.end ?? Date.now();
+      if (step === 'red_dot') {
+        // Arrival at the final waypoint records the completion time, with more precision than here.
+        const completed = options.completed ?? session.completionTimeSeconds != null;
+        completeStep('red_dot', {
+          results: {
+            endTime: end,
+            completionStatus: completed ? 'completed' : 'incomplete',
+            completionTimeSeconds: completed ? (session.completionTimeSeconds ?? Math.round((end - start) / 1000)) : undefined,
+            navigationErrors: (session.taskEvents ?? []).filter((e) => e.type === 'error').length,
+          },
+        });
+        return true;
+      }
+      if (step === 'object_search') {
+        const objects = session.searchObjects ?? [];
+        const allFound = objects.length > 0 && objects.every((o) => o.foundAt);
+        completeStep('object_search', {
+          results: {
+            endTime: end,
+            completionStatus: allFound ? 'completed' : 'incomplete',
+            objectFound: allFound,
+            searchDurationSeconds: allFound ? session.searchDurationSeconds : Math.round((end - start) / 1000),
+            searchTimedOut: !!options.timedOut,
+          },
+        });
+        return true;
+      }
+      return false;
+    },
+    [step, session, completeStep]
+  );
+
+  return { step, session, startStage, logEvent, undoLastEvent, markObjectFound, endStage };
+}
+
+// Ends an object search at its time limit whichever screen is showing. The deadline counts from
+// the session's stored start, so a search left running in the background still ends at the
+// limit, and one resumed after it has passed ends straight away. Mounted once, at the root.
+export function useSearchTimeLimit() {
+  const { settings } = useApp();
+  const { step, session, endStage } = useStageActions();
+  const { t, speak } = useStrings();
+  const limit = settings.searchTimeLimitSec;
+  const sessionId = session?.sessionId;
+  const deadline = step === 'object_search' && session?.startTime && !session.endTime && limit > 0 ? session.startTime + limit * 1000 : undefined;
+  const firedFor = useRef<string | null>(null);
+  const expireRef = useRef<(at: number) => void>(() => {});
+  expireRef.current = (at) => {
+    if (!sessionId || firedFor.current === sessionId) return;
+    if (!endStage({ end: at, timedOut: true })) return;
+    firedFor.current = sessionId;
+    speak(t('search.time_up'));
+  };
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setTimeout(() => expireRef.current(deadline), Math.max(0, deadline - Date.now()));
+    return () => clearTimeout(timer);
+  }, [deadline]);
+}
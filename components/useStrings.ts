@@ -0,0 +1,29 @@
+import { useApp } from '@/context/AppContext';
+import { logCue } from '@/lib/cueLog';
+import { Locale, SPEECH_LANGUAGES, StringKey, translate } from '@/lib/i18n';
+import * as Speech from 'expo-speech';
+import { useMemo } from 'react';
+
+// Strings and speech in the participant's language. The participant of the active session
+// decides, unless a participant is named explicitly; otherwise the locale from Settings applies.
+export function useStrings(participantId?: string) {
+  const { settings, participants, sessions, activeSessionId } = useApp();
+  const subjectId = participantId ?? sessions.find((s) => s.sessionId === activeSessionId)?.participantId;
+  const locale: Locale = participants.find((p) => p.participantId === subjectId)?.language ?? settings.locale;
+
+  return useMemo(
+    () => ({
+      locale,
+      t: (key: StringKey, params?: Record<string, string | number>) => translate(locale, key, params),
+      speak: (text: string, options?: Speech.SpeechOptions) => {
+        Speech.speak(text, { language: SPEECH_LANGUAGES[locale], ...options });
+        logCue('speech', text);
+      },
+      stopSpeech: () => {
+        Speech.stop();
+        logCue('speech_stop');
+      },
+    }),
+    [locale]
+  );
+}
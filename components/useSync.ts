@@ -0,0 +1,40 @@
+import { useApp } from '@/context/AppContext';
+import { enqueueChanges, flushQueue, getSyncSnapshot, subscribeSync, SyncRecords } from '@/lib/sync';
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+
+const TICK_MS = 5000;
+
+// Keeps the upload queue in step with the study records and drains it while a server is set.
+// Mounted once, at the root; screens read progress with `useSyncStatus`.
+export function useSyncUploader() {
+  const { participants, sessions, surveys, settings } = useApp();
+  const url = settings.syncUrl.trim();
+  const recordsRef = useRef<SyncRecords>({ participants, sessions, surveys });
+  recordsRef.current = { participants, sessions, surveys };
+
+  useEffect(() => {
+    if (!url) return;
+    enqueueChanges({ participants, sessions, surveys })
+      .then(() => flushQueue(url, recordsRef.current))
+      .catch((e) => console.warn('Sync failed', e));
+  }, [url, participants, sessions, surveys]);
+
+  useEffect(() => {
+    if (!url) return;
+    const timer = setInterval(() => {
+      flushQueue(url, recordsRef.current).catch((e) => console.warn('Sync failed', e));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [url]);
+}
+
+export function useSyncStatus() {
+  const { participants, sessions, surveys, settings } = useApp();
+  const snapshot = useSyncExternalStore(subscribeSync, getSyncSnapshot);
+  const url = settings.syncUrl.trim();
+  const syncNow = useCallback(() => {
+    if (!url) return;
+    flushQueue(url, { participants, sessions, surveys }, { force: true }).catch((e) => console.warn('Sync failed', e));
+  }, [url, participants, sessions, surveys]);
+  return { ...snapshot, enabled: url !== '', syncNow };
+}
@@ -1,4 +1,16 @@
-import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { assignConditionOrder } from '@/lib/counterbalancing';
+import { buildCsvTables, CsvTable, ExportFilter } from '@/lib/csvExport';
+import { loadCueLog } from '@/lib/cueLog';
+import type { DatasetRecords } from '@/lib/dataset';
+import type { HapticPatternOverrides } from '@/lib/hapticPatterns';
+import type { HeadingFilterConfig, HeadingFilterType } from '@/lib/headingFilter';
+import type { Locale } from '@/lib/i18n';
+import type { ProtocolRun, ProtocolStep } from '@/lib/protocol';
+import type { RemoteRole } from '@/lib/remote';
+import type { SpeechConfig, SpeechStyle } from '@/lib/speechInstructions';
+import { loadState, saveState } from '@/lib/storage';
+import { generateUuidV4 } from '@/lib/uuid';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 
 export type Participant = {
   participantId: string;
@@ -6,26 +18,83 @@ export type Participant = {
   gender?: string;
   visionStatus?: 'blind' | 'low_vision' | 'sighted_control';
   mobilityAid?: 'cane' | 'guide_dog' | 'none';
+  /** Language for this participant's prompts; falls back to `Settings.locale`. */
+  language?: Locale;
+  trainingResults?: TrainingResult[];
+  /** Counterbalanced order in which this participant runs the study conditions. */
+  conditionOrder?: FeedbackMode[];
+  /** Latin square row the order was taken from, for auditing the assignment. */
+  counterbalanceRow?: number;
   createdAt: number;
 };
 
-export type FeedbackMode = 'audio' | 'static_haptic' | 'dynamic_haptic';
+export type TrainingResult = {
+  feedbackMode: FeedbackMode;
+  trials: number;
+  correct: number;
+  /** correct / trials, 0-1. */
+  accuracy: number;
+  completedAt: number;
+};
+
+export type FeedbackMode = 'audio' | 'static_haptic' | 'dynamic_haptic' | 'sonification';
 
 export type Session = {
   sessionId: string;
   participantId: string;
   feedbackMode: FeedbackMode;
   stage: 'red_dot' | 'object_search';
+  /** Protocol run that created this session, if any. */
+  protocolRunId?: string;
   startTime?: number;
   endTime?: number;
   completionStatus?: 'completed' | 'incomplete';
   completionTimeSeconds?: number;
   navigationErrors?: number;
+  /** True once every object in the search was found. */
   objectFound?: boolean;
+  /** Seconds until the last object was found, or until the search ended. */
   searchDurationSeconds?: number;
+  searchObjects?: SearchObject[];
+  /** Set when the object search was ended by its time limit. */
+  searchTimedOut?: boolean;
+  hasSensorTrace?: boolean;
+  /** Smoothing applied to the compass while this session's guidance ran. */
+  headingFilter?: HeadingFilterConfig;
+  /** Spoken instruction phrasing in effect while the audio condition ran. */
+  speechInstructions?: SpeechConfig;
+  waypointArrivals?: WaypointArrival[];
+  /** Checkpoints and navigation errors logged by the researcher during the red dot task. */
+  taskEvents?: TaskEvent[];
   createdAt: number;
 };
 
+export type SearchObject = {
+  name: string;
+  foundAt?: number;
+};
+
+export type TaskEvent = {
+  eventId: string;
+  type: 'checkpoint' | 'error';
+  at: number;
+};
+
+export type Waypoint = {
+  waypointId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+};
+
+export type WaypointArrival = {
+  waypointId: string;
+  name: string;
+  /** Position of the waypoint in the route when it was reached. */
+  index: number;
+  arrivedAt: number;
+};
+
 export type SurveyResponse = {
   responseId: string;
   sessionId: string;
@@ -36,24 +105,102 @@ export type SurveyResponse = {
   createdAt: number;
 };
 
+export type Settings = {
+  useTrueNorth: boolean;
+  alignThresholdDeg: number;
+  /** Distance from the target, in meters, that counts as having arrived. */
+  arrivalRadiusM: number;
+  /** Ordered waypoints; guidance advances to the next one as each is reached. */
+  route: Waypoint[];
+  hasCalibrated?: boolean;
+  calibrationPrompted?: boolean;
+  /** Where heading and position come from; `simulated` is driven by on-screen controls. */
+  sensorSource: 'device' | 'simulated';
+  headingFilterType: HeadingFilterType;
+  headingFilterStrength: number;
+  /** Haptic cue encodings that differ from the built-in library. */
+  hapticPatterns: HapticPatternOverrides;
+  speechStyle: SpeechStyle;
+  speechFacingDeg: number;
+  speechSlightDeg: number;
+  /** Default language for participant-facing text and speech. */
+  locale: Locale;
+  /** Feedback modes each participant runs, in counterbalanced order. */
+  studyConditions: FeedbackMode[];
+  /** Steps every protocol run walks through, in order. */
+  protocolSteps: ProtocolStep[];
+  /** Objects hidden for each object search, found in any order. */
+  searchObjectNames: string[];
+  /** Seconds before an object search ends on its own; 0 for no limit. */
+  searchTimeLimitSec: number;
+  /** Study server endpoint records are uploaded to; empty to keep data on the device. */
+  syncUrl: string;
+  /** This device's part in researcher remote control, and the relay both devices join. */
+  remoteRole: RemoteRole;
+  remoteUrl: string;
+  remoteRoom: string;
+  /** Access code the relay was started with; it turns away devices without it. */
+  remoteSecret: string;
+};
+
+const DEFAULT_SETTINGS: Settings = {
+  useTrueNorth: true,
+  alignThresholdDeg: 10,
+  arrivalRadiusM: 3,
+  route: [],
+  hasCalibrated: false,
+  calibrationPrompted: false,
+  sensorSource: 'device',
+  headingFilterType: 'exponential',
+  headingFilterStrength: 0.5,
+  hapticPatterns: {},
+  speechStyle: 'degrees',
+  speechFacingDeg: 10,
+  speechSlightDeg: 15,
+  locale: 'en',
+  studyConditions: ['audio', 'static_haptic', 'dynamic_haptic'],
+  protocolSteps: ['red_dot', 'break', 'object_search', 'survey'],
+  searchObjectNames: ['Object'],
+  searchTimeLimitSec: 180,
+  syncUrl: '',
+  remoteRole: 'off',
+  remoteUrl: '',
+  remoteRoom: 'study',
+  remoteSecret: '',
+};
+
 type AppContextValue = {
   participants: Participant[];
   sessions: Session[];
   surveys: SurveyResponse[];
-  settings: {
-    useTrueNorth: boolean;
-    alignThresholdDeg: number;
-    targetLat?: number;
-    targetLon?: number;
-    hasCalibrated?: boolean;
-    calibrationPrompted?: boolean;
-  };
+  settings: Settings;
+  activeSessionId?: string;
+  /** Index into `settings.route` of the waypoint currently being guided to. */
+  routeIndex: number;
+  /** Session whose recorded sensor trace is fed to the feedback screens instead of live sensors. */
+  replaySessionId?: string;
+  protocolRuns: ProtocolRun[];
+  /** Protocol run the stage screens report to; unset between runs. */
+  activeRunId?: string;
+  /** Stored data could not be read; nothing is saved this launch so it is not overwritten. */
+  loadFailed: boolean;
   addParticipant: (p: Omit<Participant, 'participantId' | 'createdAt'>) => Participant;
+  updateParticipant: (participantId: string, updates: Partial<Participant>) => void;
   addSession: (s: Omit<Session, 'sessionId' | 'createdAt'>) => Session;
-  updateSession: (sessionId: string, updates: Partial<Session>) => void;
+  /** Pass a function to derive the updates from the latest stored session rather than a render's copy. */
+  updateSession: (sessionId: string, updates: Partial<Session> | ((session: Session) => Partial<Session>)) => void;
   addSurvey: (r: Omit<SurveyResponse, 'responseId' | 'createdAt'>) => SurveyResponse;
-  exportCsv: () => Promise<string>;
+  /** One CSV table per record type, narrowed to the filter. */
+  exportCsv: (filter?: ExportFilter) => Promise<CsvTable[]>;
+  /** Replaces the study records with a merged dataset; settings are applied over the current ones. */
+  importRecords: (records: DatasetRecords) => void;
   updateSettings: (updates: Partial<AppContextValue['settings']>) => void;
+  setActiveSessionId: (sessionId: string | undefined) => void;
+  setRouteIndex: (index: number) => void;
+  setReplaySessionId: (sessionId: string | undefined) => void;
+  addProtocolRun: (run: ProtocolRun) => void;
+  updateProtocolRun: (run: ProtocolRun) => void;
+  setActiveRunId: (runId: string | undefined) => void;
 };
 
 const AppContext = createContext<AppContextValue | undefined>(undefined);
@@ -62,16 +209,68 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [surveys, setSurveys] = useState<SurveyResponse[]>([]);
-  const [settings, setSettings] = useState<{ useTrueNorth: boolean; alignThresholdDeg: number; targetLat?: number; targetLon?: number; hasCalibrated?: boolean; calibrationPrompted?: boolean }>({ useTrueNorth: true, alignThresholdDeg: 10, hasCalibrated: false, calibrationPrompted: false });
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [activeSessionId, setActiveSessionIdState] = useState<string | undefined>();
+  const [routeIndex, setRouteIndex] = useState(0);
+  const [replaySessionId, setReplaySessionId] = useState<string | undefined>();
+  const [protocolRuns, setProtocolRuns] = useState<ProtocolRun[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | undefined>();
+  const [hydrated, setHydrated] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
 
-  const addParticipant: AppContextValue['addParticipant'] = useCallback((p) => {
-    const newParticipant: Participant = {
-      participantId: generateUuidV4(),
-      createdAt: Date.now(),
-      ...p,
+  // Restore the previous run's data before anything can write over it.
+  useEffect(() => {
+    let cancelled = false;
+    loadState()
+      .then((stored) => {
+        if (cancelled || !stored) return;
+        setParticipants(stored.participants);
+        setSessions(stored.sessions);
+        setSurveys(stored.surveys);
+        setSettings((prev) => ({ ...prev, ...stored.settings }));
+        setActiveSessionIdState(stored.activeSessionId);
+        setRouteIndex(stored.routeIndex ?? 0);
+        setProtocolRuns(stored.protocolRuns);
+        setActiveRunId(stored.activeRunId);
+      })
+      .catch((e) => {
+        console.warn('Failed to load stored study data', e);
+        if (cancelled) return;
+        setLoadFailed(true);
+        alert('Saved study data could not be loaded. Nothing will be saved until the app is restarted, so the stored data is kept.');
+      })
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
+    return () => {
+      cancelled = true;
     };
-    setParticipants((prev) => [...prev, newParticipant]);
-    return newParticipant;
+  }, []);
+
+  // Write through on every change once hydrated, unless that would replace data that failed to load.
+  useEffect(() => {
+    if (!hydrated || loadFailed) return;
+    saveState({ participants, sessions, surveys, settings, activeSessionId, routeIndex, protocolRuns, activeRunId }).catch((e) =>
+      console.warn('Failed to save study data', e)
+    );
+  }, [hydrated, loadFailed, participants, sessions, surveys, settings, activeSessionId, routeIndex, protocolRuns, activeRunId]);
+
+  const addParticipant: AppContextValue['addParticipant'] = useCallback(
+    (p) => {
+      const newParticipant: Participant = {
+        participantId: generateUuidV4(),
+        createdAt: Date.now(),
+        ...assignConditionOrder(settings.studyConditions, participants),
+        ...p,
+      };
+      setParticipants((prev) => [...prev, newParticipant]);
+      return newParticipant;
+    },
+    [participants, settings.studyConditions]
+  );
+
+  const updateParticipant: AppContextValue['updateParticipant'] = useCallback((participantId, updates) => {
+    setParticipants((prev) => prev.map((p) => (p.participantId === participantId ? { ...p, ...updates } : p)));
   }, []);
 
   const addSession: AppContextValue['addSession'] = useCallback((s) => {
@@ -85,12 +284,12 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, []);
 
   const updateSession: AppContextValue['updateSession'] = useCallback((sessionId, updates) => {
-    setSessions((prev) => prev.map((s) => (s.sessionId === sessionId ? { ...s, ...updates } : s)));
+    setSessions((prev) => prev.map((s) => (s.sessionId === sessionId ? { ...s, ...(typeof updates === 'function' ? updates(s) : updates) } : s)));
   }, []);
 
   const addSurvey: AppContextValue['addSurvey'] = useCallback((r) => {
     const newResponse: SurveyResponse = {
-      responseId: String(uuid.v4()),
+      responseId: generateUuidV4(),
       createdAt: Date.now(),
       ...r,
     };
@@ -102,46 +301,89 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setSettings((prev) => ({ ...prev, ...updates }));
   }, []);
 
-  const exportCsv = useCallback(async () => {
-    const header = [
-      'session_id',
-      'participant_id',
-      'feedback_mode',
-      'stage',
-      'start_time',
-      'end_time',
-      'completion_status',
-      'completion_time_seconds',
-      'navigation_errors',
-      'object_found',
-      'search_duration_seconds',
-    ];
-    const lines = [header.join(',')];
-    sessions.forEach((s) => {
-      lines.push(
-        [
-          s.sessionId,
-          s.participantId,
-          s.feedbackMode,
-          s.stage,
-          s.startTime ?? '',
-          s.endTime ?? '',
-          s.completionStatus ?? '',
-          s.completionTimeSeconds ?? '',
-          s.navigationErrors ?? '',
-          s.objectFound ?? '',
-          s.searchDurationSeconds ?? '',
-        ].join(',')
-      );
-    });
-    return lines.join('\n');
-  }, [sessions]);
+  const importRecords: AppContextValue['importRecords'] = useCallback((records) => {
+    setParticipants(records.participants);
+    setSessions(records.sessions);
+    setSurveys(records.surveys);
+    setSettings((prev) => ({ ...prev, ...records.settings }));
+  }, []);
+
+  const addProtocolRun: AppContextValue['addProtocolRun'] = useCallback((run) => {
+    setProtocolRuns((prev) => [...prev, run]);
+  }, []);
+
+  const updateProtocolRun: AppContextValue['updateProtocolRun'] = useCallback((run) => {
+    setProtocolRuns((prev) => prev.map((r) => (r.runId === run.runId ? run : r)));
+  }, []);
+
+  // Every newly activated session walks the route from its first waypoint.
+  const setActiveSessionId: AppContextValue['setActiveSessionId'] = useCallback((sessionId) => {
+    setActiveSessionIdState(sessionId);
+    setRouteIndex(0);
+  }, []);
+
+  const exportCsv: AppContextValue['exportCsv'] = useCallback(
+    async (filter) => {
+      const logs = await Promise.all(sessions.map(async (s) => [s.sessionId, await loadCueLog(s.sessionId)] as const));
+      return buildCsvTables({ participants, sessions, surveys, cueLogs: Object.fromEntries(logs) }, filter);
+    },
+    [participants, sessions, surveys]
+  );
 
   const value = useMemo<AppContextValue>(
-    () => ({ participants, sessions, surveys, settings, addParticipant, addSession, updateSession, addSurvey, exportCsv, updateSettings }),
-    [participants, sessions, surveys, settings, addParticipant, addSession, updateSession, addSurvey, exportCsv, updateSettings]
+    () => ({
+      participants,
+      sessions,
+      surveys,
+      settings,
+      activeSessionId,
+      routeIndex,
+      replaySessionId,
+      addParticipant,
+      updateParticipant,
+      addSession,
+      updateSession,
+      addSurvey,
+      exportCsv,
+      importRecords,
+      updateSettings,
+      setActiveSessionId,
+      setRouteIndex,
+      setReplaySessionId,
+      protocolRuns,
+      activeRunId,
+      loadFailed,
+      addProtocolRun,
+      updateProtocolRun,
+      setActiveRunId,
+    }),
+    [
+      participants,
+      sessions,
+      surveys,
+      settings,
+      activeSessionId,
+      routeIndex,
+      replaySessionId,
+      protocolRuns,
+      activeRunId,
+      loadFailed,
+      addParticipant,
+      updateParticipant,
+      addSession,
+      updateSession,
+      addSurvey,
+      exportCsv,
+      importRecords,
+      updateSettings,
+      setActiveSessionId,
+      addProtocolRun,
+      updateProtocolRun,
+    ]
   );
 
+  if (!hydrated) return null;
+
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
 };
 
@@ -150,29 +392,3 @@ export const useApp = (): AppContextValue => {
   if (!ctx) throw new Error('useApp must be used within AppProvider');
   return ctx;
 };
-
-function generateUuidV4(): string {
-  // RFC4122 version 4 compliant UUID generator without dependencies
-  const bytes = new Uint8Array(16);
-  for (let i = 0; i < 16; i += 1) {
-    bytes[i] = Math.floor(Math.random() * 256);
-  }
-  // Set version and variant bits
-  bytes[6] = (bytes[6] & 0x0f) | 0x40;
-  bytes[8] = (bytes[8] & 0x3f) | 0x80;
-  const toHex = (n: number) => n.toString(16).padStart(2, '0');
-  const hex = Array.from(bytes, toHex).join('');
-  return (
-    hex.substring(0, 8) +
-    '-' +
-    hex.substring(8, 12) +
-    '-' +
-    hex.substring(12, 16) +
-    '-' +
-    hex.substring(16, 20) +
-    '-' +
-    hex.substring(20)
-  );
-}
-
-
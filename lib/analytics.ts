@@ -0,0 +1,163 @@
+import type { FeedbackMode, Session, SurveyResponse } from '@/context/AppContext';
+import { ALL_CONDITIONS } from '@/lib/counterbalancing';
+
+// Descriptive summary of finished sessions for a quick look after a study day. Session measures
+// are grouped by feedback mode and stage; survey answers by the mode of the session they belong
+// to. Paired comparisons use each participant's own mean per mode, so only participants who did
+// both modes count towards a pair. Values are taken as recorded, including incomplete sessions.
+
+export type Stage = Session['stage'];
+
+export const STAGES: Stage[] = ['red_dot', 'object_search'];
+
+export type SessionMeasure = 'completionTimeSeconds' | 'navigationErrors' | 'searchDurationSeconds';
+export type SurveyMeasure = 'easeOfUse' | 'clarityOfGuidance' | 'spatialConfidence';
+
+export const SESSION_MEASURES: { key: SessionMeasure; label: string; stage: Stage }[] = [
+  { key: 'completionTimeSeconds', label: 'Completion time (s)', stage: 'red_dot' },
+  { key: 'navigationErrors', label: 'Navigation errors', stage: 'red_dot' },
+  { key: 'searchDurationSeconds', label: 'Search duration (s)', stage: 'object_search' },
+];
+
+export const SURVEY_MEASURES: { key: SurveyMeasure; label: string }[] = [
+  { key: 'easeOfUse', label: 'Ease of use' },
+  { key: 'clarityOfGuidance', label: 'Clarity of guidance' },
+  { key: 'spatialConfidence', label: 'Spatial confidence' },
+];
+
+export type Stats = { n: number; mean: number; median: number; sd: number | null };
+
+export type GroupSummary = {
+  feedbackMode: FeedbackMode;
+  stage: Stage;
+  sessions: number;
+  /** Share of sessions that succeeded: route completed, or every object found. */
+  successRate: number;
+  measures: Partial<Record<SessionMeasure, Stats>>;
+};
+
+export type SurveySummary = {
+  feedbackMode: FeedbackMode;
+  responses: number;
+  measures: Partial<Record<SurveyMeasure, Stats>>;
+};
+
+export type PairedComparison = {
+  measure: SessionMeasure | SurveyMeasure;
+  label: string;
+  modeA: FeedbackMode;
+  modeB: FeedbackMode;
+  /** One row per participant with a value in both modes; `diff` is B minus A. */
+  participants: { participantId: string; a: number; b: number; diff: number }[];
+  diff: Stats;
+  /** Paired t statistic on the differences; null with fewer than two pairs or no spread. */
+  t: number | null;
+};
+
+export type AnalyticsSummary = {
+  groups: GroupSummary[];
+  surveys: SurveySummary[];
+  comparisons: PairedComparison[];
+};
+
+/** Mean, median and sample SD; null for no values, and `sd` is null for a single value. */
+export function describe(values: number[]): Stats | null {
+  if (values.length === 0) return null;
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(n / 2);
+  const median = n % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const sd = n > 1 ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)) : null;
+  return { n, mean, median, sd };
+}
+
+export function succeeded(session: Session): boolean {
+  return session.stage === 'object_search' ? session.objectFound === true : session.completionStatus === 'completed';
+}
+
+export function summarize(sessions: Session[], surveys: SurveyResponse[]): AnalyticsSummary {
+  const finished = sessions.filter((s) => s.endTime != null);
+  const bySession = new Map(finished.map((s) => [s.sessionId, s]));
+  const answered = surveys.filter((r) => bySession.has(r.sessionId));
+
+  const groups: GroupSummary[] = [];
+  ALL_CONDITIONS.forEach((feedbackMode) =>
+    STAGES.forEach((stage) => {
+      const group = finished.filter((s) => s.feedbackMode === feedbackMode && s.stage === stage);
+      if (group.length === 0) return;
+      const measures: GroupSummary['measures'] = {};
+      SESSION_MEASURES.filter((m) => m.stage === stage).forEach(({ key }) => {
+        const stats = describe(valuesOf(group, (s) => s[key]));
+        if (stats) measures[key] = stats;
+      });
+      groups.push({ feedbackMode, stage, sessions: group.length, successRate: group.filter(succeeded).length / group.length, measures });
+    })
+  );
+
+  const surveySummaries: SurveySummary[] = [];
+  ALL_CONDITIONS.forEach((feedbackMode) => {
+    const responses = answered.filter((r) => bySession.get(r.sessionId)?.feedbackMode === feedbackMode);
+    if (responses.length === 0) return;
+    const measures: SurveySummary['measures'] = {};
+    SURVEY_MEASURES.forEach(({ key }) => {
+      const stats = describe(valuesOf(responses, (r) => r[key]));
+      if (stats) measures[key] = stats;
+    });
+    surveySummaries.push({ feedbackMode, responses: responses.length, measures });
+  });
+
+  const comparisons: PairedComparison[] = [];
+  SESSION_MEASURES.forEach(({ key, label, stage }) => {
+    const rows = finished.filter((s) => s.stage === stage).map((s) => ({ participantId: s.participantId, mode: s.feedbackMode, value: s[key] }));
+    comparisons.push(...pairModes(key, label, rows));
+  });
+  SURVEY_MEASURES.forEach(({ key, label }) => {
+    const rows = answered.flatMap((r) => {
+      const session = bySession.get(r.sessionId);
+      return session ? [{ participantId: session.participantId, mode: session.feedbackMode, value: r[key] }] : [];
+    });
+    comparisons.push(...pairModes(key, label, rows));
+  });
+
+  return { groups, surveys: surveySummaries, comparisons };
+}
+
+function pairModes(
+  measure: PairedComparison['measure'],
+  label: string,
+  rows: { participantId: string; mode: FeedbackMode; value: number | undefined }[]
+): PairedComparison[] {
+  // Each participant's mean per mode, so repeated sessions do not weigh more.
+  const perParticipant = new Map<string, Map<FeedbackMode, number[]>>();
+  rows.forEach(({ participantId, mode, value }) => {
+    if (value == null || !Number.isFinite(value)) return;
+    const modes = perParticipant.get(participantId) ?? new Map<FeedbackMode, number[]>();
+    modes.set(mode, [...(modes.get(mode) ?? []), value]);
+    perParticipant.set(participantId, modes);
+  });
+
+  const result: PairedComparison[] = [];
+  ALL_CONDITIONS.forEach((modeA, i) =>
+    ALL_CONDITIONS.slice(i + 1).forEach((modeB) => {
+      const participants: PairedComparison['participants'] = [];
+      perParticipant.forEach((modes, participantId) => {
+        const a = modes.get(modeA);
+        const b = modes.get(modeB);
+        const statsA = a && describe(a);
+        const statsB = b && describe(b);
+        if (!statsA || !statsB) return;
+        participants.push({ participantId, a: statsA.mean, b: statsB.mean, diff: statsB.mean - statsA.mean });
+      });
+      const diff = describe(participants.map((p) => p.diff));
+      if (!diff) return;
+      const t = diff.sd ? diff.mean / (diff.sd / Math.sqrt(diff.n)) : null;
+      result.push({ measure, label, modeA, modeB, participants, diff, t });
+    })
+  );
+  return result;
+}
+
+function valuesOf<T>(items: T[], pick: (item: T) => number | undefined): number[] {
+  return items.map(pick).filter((v): v is number => v != null && Number.isFinite(v));
+}
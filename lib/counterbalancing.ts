@@ -0,0 +1,55 @@
+import type { FeedbackMode, Participant, Session } from '@/context/AppContext';
+
+// Within-subject condition ordering. Participants are assigned successive rows of a balanced
+// Latin square, so across participants every condition appears in every position and follows
+// every other condition equally often.
+
+export const ALL_CONDITIONS: FeedbackMode[] = ['audio', 'static_haptic', 'dynamic_haptic', 'sonification'];
+
+/**
+ * Rows of a balanced (Williams) Latin square over `n` conditions, as condition indices.
+ * Odd `n` needs each row and its reverse to balance first-order carryover, so it has 2n rows.
+ */
+export function balancedLatinSquare(n: number): number[][] {
+  if (n <= 0) return [];
+  // First row: 0, 1, n-1, 2, n-2, ...
+  const first: number[] = [];
+  for (let i = 0, lo = 1, hi = n - 1; i < n; i++) {
+    if (i === 0) first.push(0);
+    else if (i % 2 === 1) first.push(lo++);
+    else first.push(hi--);
+  }
+  const rows = Array.from({ length: n }, (_, r) => first.map((c) => (c + r) % n));
+  return n % 2 === 0 ? rows : [...rows, ...rows.map((row) => [...row].reverse())];
+}
+
+export type ConditionAssignment = Required<Pick<Participant, 'conditionOrder' | 'counterbalanceRow'>>;
+
+/** The next unused square row, counting the participants already assigned an order. */
+export function assignConditionOrder(conditions: FeedbackMode[], participants: Participant[]): ConditionAssignment {
+  const square = balancedLatinSquare(conditions.length);
+  const assigned = participants.filter((p) => p.conditionOrder != null).length;
+  const counterbalanceRow = square.length > 0 ? assigned % square.length : 0;
+  return { conditionOrder: (square[counterbalanceRow] ?? []).map((i) => conditions[i]), counterbalanceRow };
+}
+
+export type NextCondition = {
+  mode: FeedbackMode;
+  /** 0-based position in the participant's order. */
+  position: number;
+};
+
+/**
+ * First condition in the participant's order with no finished session yet; null when all are done.
+ * A session still open, or ended without its task ever starting (abandoned or skipped), leaves the
+ * condition to be run again.
+ */
+export function nextCondition(participant: Participant, sessions: Session[]): NextCondition | null {
+  const order = participant.conditionOrder;
+  if (!order) return null;
+  const run = new Set(
+    sessions.filter((s) => s.participantId === participant.participantId && s.startTime != null && s.endTime != null).map((s) => s.feedbackMode)
+  );
+  const position = order.findIndex((mode) => !run.has(mode));
+  return position === -1 ? null : { mode: order[position], position };
+}
@@ -0,0 +1,184 @@
+import type { Participant, Session, SurveyResponse } from '@/context/AppContext';
+import type { CueEvent } from '@/lib/cueLog';
+import { Directory, File, Paths } from 'expo-file-system';
+
+// Study data as one CSV table per record type, narrowed by an optional filter, written to the
+// app's document directory so each file can be shared.
+
+export type ExportFilter = {
+  participantId?: string;
+  /** Inclusive bounds on when a session was created, in ms. */
+  from?: number;
+  to?: number;
+};
+
+export type CsvTable = {
+  name: 'participants' | 'sessions' | 'surveys' | 'task_events' | 'cue_events';
+  header: string[];
+  rows: CsvValue[][];
+};
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?(e[-+]?\d+)?$/i;
+
+export type ExportData = {
+  participants: Participant[];
+  sessions: Session[];
+  surveys: SurveyResponse[];
+  /** Cue log of each session, keyed by session id. */
+  cueLogs: Record<string, CueEvent[]>;
+};
+
+/**
+ * Quotes a field when it holds a comma, quote or line break, doubling any quotes inside. Text that
+ * a spreadsheet would run as a formula gets a leading `'`; numbers, negative ones included, stay
+ * numbers.
+ */
+export function escapeCsv(value: CsvValue): string {
+  if (value == null) return '';
+  const text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !NUMBER_PATTERN.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: CsvTable): string {
+  return [table.header, ...table.rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+export function sessionMatches(session: Session, filter: ExportFilter): boolean {
+  if (filter.participantId && session.participantId !== filter.participantId) return false;
+  if (filter.from != null && session.createdAt < filter.from) return false;
+  if (filter.to != null && session.createdAt > filter.to) return false;
+  return true;
+}
+
+export function buildCsvTables(data: ExportData, filter: ExportFilter = {}): CsvTable[] {
+  const sessions = data.sessions.filter((s) => sessionMatches(s, filter));
+  const sessionIds = new Set(sessions.map((s) => s.sessionId));
+  const dated = filter.from != null || filter.to != null;
+  // With a date range, participants are those who have a session inside it.
+  const participants = data.participants.filter((p) =>
+    filter.participantId ? p.participantId === filter.participantId : !dated || sessions.some((s) => s.participantId === p.participantId)
+  );
+  const surveys = data.surveys.filter((r) => sessionIds.has(r.sessionId));
+
+  return [
+    {
+      name: 'participants',
+      header: ['participant_id', 'created_at', 'age', 'gender', 'vision_status', 'mobility_aid', 'language', 'condition_order', 'counterbalance_row', 'training_accuracy'],
+      rows: participants.map((p) => [
+        p.participantId,
+        iso(p.createdAt),
+        p.age,
+        p.gender,
+        p.visionStatus,
+        p.mobilityAid,
+        p.language,
+        p.conditionOrder?.join('|'),
+        p.counterbalanceRow,
+        p.trainingResults?.map((r) => `${r.feedbackMode}:${r.accuracy.toFixed(2)}`).join('|'),
+      ]),
+    },
+    {
+      name: 'sessions',
+      header: [
+        'session_id',
+        'participant_id',
+        'feedback_mode',
+        'stage',
+        'start_time',
+        'end_time',
+        'completion_status',
+        'completion_time_seconds',
+        'navigation_errors',
+        'object_found',
+        'search_duration_seconds',
+        'objects_found',
+        'search_timed_out',
+        'heading_filter_type',
+        'heading_filter_strength',
+        'waypoints_reached',
+        'checkpoints',
+        'speech_style',
+        'condition_order',
+        'counterbalance_row',
+        'condition_position',
+        'protocol_run_id',
+        'cue_count',
+        'cues_per_minute',
+      ],
+      rows: sessions.map((s) => {
+        const participant = data.participants.find((p) => p.participantId === s.participantId);
+        const position = participant?.conditionOrder?.indexOf(s.feedbackMode) ?? -1;
+        const cueCount = data.cueLogs[s.sessionId]?.length ?? 0;
+        const minutes = s.startTime && s.endTime ? (s.endTime - s.startTime) / 60000 : 0;
+        return [
+          s.sessionId,
+          s.participantId,
+          s.feedbackMode,
+          s.stage,
+          iso(s.startTime),
+          iso(s.endTime),
+          s.completionStatus,
+          s.completionTimeSeconds,
+          s.navigationErrors,
+          s.objectFound,
+          s.searchDurationSeconds,
+          s.searchObjects ? `${s.searchObjects.filter((o) => o.foundAt).length}/${s.searchObjects.length}` : undefined,
+          s.searchTimedOut,
+          s.headingFilter?.type,
+          s.headingFilter?.strength,
+          s.waypointArrivals?.length,
+          s.taskEvents?.filter((e) => e.type === 'checkpoint').length,
+          s.speechInstructions?.style,
+          participant?.conditionOrder?.join('|'),
+          participant?.counterbalanceRow,
+          position >= 0 ? position + 1 : undefined,
+          s.protocolRunId,
+          cueCount,
+          minutes > 0 ? (cueCount / minutes).toFixed(2) : undefined,
+        ];
+      }),
+    },
+    {
+      name: 'surveys',
+      header: ['response_id', 'session_id', 'created_at', 'ease_of_use', 'clarity_of_guidance', 'spatial_confidence', 'feedback_text'],
+      rows: surveys.map((r) => [r.responseId, r.sessionId, iso(r.createdAt), r.easeOfUse, r.clarityOfGuidance, r.spatialConfidence, r.feedbackText]),
+    },
+    {
+      name: 'task_events',
+      header: ['session_id', 'time', 'event', 'detail'],
+      rows: sessions.flatMap((s) => [
+        ...(s.taskEvents ?? []).map((e): CsvValue[] => [s.sessionId, iso(e.at), e.type, '']),
+        ...(s.waypointArrivals ?? []).map((a): CsvValue[] => [s.sessionId, iso(a.arrivedAt), 'waypoint', a.name]),
+        ...(s.searchObjects ?? []).filter((o) => o.foundAt).map((o): CsvValue[] => [s.sessionId, iso(o.foundAt), 'object_found', o.name]),
+      ]),
+    },
+    {
+      name: 'cue_events',
+      header: ['session_id', 'time', 'cue_kind', 'cue_detail', 'heading_error_deg'],
+      rows: sessions.flatMap((s) =>
+        (data.cueLogs[s.sessionId] ?? []).map((e) => [s.sessionId, iso(e.at), e.kind, e.detail, e.errorDeg == null ? undefined : e.errorDeg.toFixed(1)])
+      ),
+    },
+  ];
+}
+
+function iso(ms: number | undefined): string | undefined {
+  return ms == null ? undefined : new Date(ms).toISOString();
+}
+
+/** Writes each table to `exports/<timestamp>/<name>.csv` and returns the files. */
+export function writeCsvFiles(tables: CsvTable[], now: number = Date.now()): File[] {
+  const dir = new Directory(Paths.document, 'exports', new Date(now).toISOString().replace(/[:.]/g, '-'));
+  dir.create({ intermediates: true, idempotent: true });
+  return tables.map((table) => {
+    const file = new File(dir, `${table.name}.csv`);
+    file.create({ overwrite: true });
+    file.write(toCsv(table));
+    return file;
+  });
+}
@@ -0,0 +1,79 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Every cue the participant was given, with the heading error at that moment. Emitters call
+// `logCue` unconditionally; it only records while guidance has a session's log open, so
+// training and pattern previews stay out of the data. Storage mirrors the sensor traces.
+
+export type CueKind =
+  | 'speech'
+  | 'speech_stop'
+  | 'impact'
+  | 'notification'
+  | 'vibrate'
+  | 'vibrate_cancel'
+  | 'tone_on'
+  | 'tone_band'
+  | 'tone_off'
+  | 'chime';
+
+export type CueEvent = {
+  at: number;
+  kind: CueKind;
+  /** Spoken text, impact style, notification type, vibration timing or tone parameters. */
+  detail: string;
+  /** Signed heading error when the cue fired; null before the first guidance update. */
+  errorDeg: number | null;
+};
+
+const CUE_KEY_PREFIX = 'haptic-nav/cues/';
+const FLUSH_INTERVAL_MS = 5000;
+
+let open: { sessionId: string; buffer: CueEvent[] } | null = null;
+let lastErrorDeg: number | null = null;
+let pending: Promise<void> = Promise.resolve();
+
+export function logCue(kind: CueKind, detail: string = ''): void {
+  open?.buffer.push({ at: Date.now(), kind, detail, errorDeg: lastErrorDeg });
+}
+
+/** Latest heading error from guidance, attached to the cues that follow it. */
+export function noteHeadingError(errorDeg: number | null): void {
+  lastErrorDeg = errorDeg;
+}
+
+function flush(log: { sessionId: string; buffer: CueEvent[] }): Promise<void> {
+  if (log.buffer.length === 0) return pending;
+  const chunk = log.buffer;
+  log.buffer = [];
+  pending = pending
+    .catch(() => undefined)
+    .then(() => AsyncStorage.setItem(`${CUE_KEY_PREFIX}${log.sessionId}/${chunk[0].at}`, JSON.stringify(chunk)))
+    .catch((e) => console.warn('Failed to save cue log', e));
+  return pending;
+}
+
+/** Starts recording cues against a session; the returned function stops and saves what is left. */
+export function startCueLog(sessionId: string): () => Promise<void> {
+  const log = { sessionId, buffer: [] as CueEvent[] };
+  open = log;
+  lastErrorDeg = null;
+  const timer = setInterval(() => flush(log), FLUSH_INTERVAL_MS);
+  return () => {
+    clearInterval(timer);
+    if (open === log) open = null;
+    return flush(log);
+  };
+}
+
+export async function loadCueLog(sessionId: string): Promise<CueEvent[]> {
+  const prefix = `${CUE_KEY_PREFIX}${sessionId}/`;
+  const keys = (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(prefix));
+  if (keys.length === 0) return [];
+  keys.sort((a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length)));
+  const entries = await AsyncStorage.multiGet(keys);
+  const events: CueEvent[] = [];
+  entries.forEach(([, raw]) => {
+    if (raw) events.push(...(JSON.parse(raw) as CueEvent[]));
+  });
+  return events;
+}
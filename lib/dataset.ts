@@ -0,0 +1,134 @@
+import type { Participant, Session, Settings, SurveyResponse } from '@/context/AppContext';
+import { isRecord, persistentSettings, SCHEMA_VERSION, upgradeState } from '@/lib/storage';
+
+// Whole-study JSON files for backups and for combining phones that ran the study in parallel.
+// Records carry UUIDs, so a merge adds what is new and only asks the researcher about records
+// that exist on both sides with different content.
+
+const DATASET_FORMAT = 'haptic-nav-dataset';
+
+export type DatasetRecords = {
+  participants: Participant[];
+  sessions: Session[];
+  surveys: SurveyResponse[];
+  settings: Partial<Settings>;
+};
+
+export type DatasetFile = {
+  format: typeof DATASET_FORMAT;
+  version: number;
+  exportedAt: number;
+  data: DatasetRecords;
+};
+
+export type RecordKind = 'participant' | 'session' | 'survey' | 'settings';
+
+export type MergeConflict = {
+  kind: RecordKind;
+  id: string;
+  local: unknown;
+  incoming: unknown;
+};
+
+export type MergePlan = {
+  added: Pick<DatasetRecords, 'participants' | 'sessions' | 'surveys'>;
+  unchanged: number;
+  conflicts: MergeConflict[];
+};
+
+export type Resolution = 'local' | 'incoming';
+
+export function buildDataset(records: DatasetRecords, now: number): DatasetFile {
+  return { format: DATASET_FORMAT, version: SCHEMA_VERSION, exportedAt: now, data: { ...records, settings: persistentSettings(records.settings) } };
+}
+
+/** Validates a dataset file's text and upgrades it to the current schema. */
+export function parseDataset(text: string): { ok: true; dataset: DatasetFile } | { ok: false; error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+  if (!isRecord(raw) || raw.format !== DATASET_FORMAT) return { ok: false, error: 'The file is not a study dataset export.' };
+  const { version, data } = raw;
+  if (typeof version !== 'number' || version > SCHEMA_VERSION) {
+    return { ok: false, error: `The file was written by a newer version of the app (schema ${String(version)}).` };
+  }
+  if (!isRecord(data)) return { ok: false, error: 'The file has no study records.' };
+  // Upgrading keeps only object entries, so count anything else here rather than drop it quietly.
+  const malformed = [data.participants, data.sessions, data.surveys].reduce<number>(
+    (n, list) => n + (Array.isArray(list) ? list.filter((r) => !isRecord(r)).length : 0),
+    0
+  );
+  const state = upgradeState(version, data);
+  const bad =
+    malformed +
+    state.participants.filter((p) => !isId(p.participantId)).length +
+    state.sessions.filter((s) => !isId(s.sessionId) || !isId(s.participantId)).length +
+    state.surveys.filter((r) => !isId(r.responseId) || !isId(r.sessionId)).length;
+  if (bad > 0) return { ok: false, error: `${bad} record(s) in the file are missing their IDs.` };
+  const { participants, sessions, surveys, settings } = state;
+  return {
+    ok: true,
+    dataset: {
+      format: DATASET_FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+      data: { participants, sessions, surveys, settings },
+    },
+  };
+}
+
+export function planMerge(local: DatasetRecords, incoming: DatasetRecords): MergePlan {
+  const plan: MergePlan = { added: { participants: [], sessions: [], surveys: [] }, unchanged: 0, conflicts: [] };
+  const compare = <T>(kind: RecordKind, mine: T[], theirs: T[], idOf: (r: T) => string, added: T[]) => {
+    const byId = new Map(mine.map((r) => [idOf(r), r]));
+    theirs.forEach((r) => {
+      const existing = byId.get(idOf(r));
+      if (!existing) added.push(r);
+      else if (stableStringify(existing) === stableStringify(r)) plan.unchanged += 1;
+      else plan.conflicts.push({ kind, id: idOf(r), local: existing, incoming: r });
+    });
+  };
+  compare('participant', local.participants, incoming.participants, (p) => p.participantId, plan.added.participants);
+  compare('session', local.sessions, incoming.sessions, (s) => s.sessionId, plan.added.sessions);
+  compare('survey', local.surveys, incoming.surveys, (r) => r.responseId, plan.added.surveys);
+  const mySettings = persistentSettings(local.settings);
+  const theirSettings = persistentSettings(incoming.settings);
+  if (Object.keys(theirSettings).length > 0 && stableStringify(mySettings) !== stableStringify(theirSettings)) {
+    plan.conflicts.push({ kind: 'settings', id: 'settings', local: mySettings, incoming: theirSettings });
+  }
+  return plan;
+}
+
+export function conflictKey(c: Pick<MergeConflict, 'kind' | 'id'>): string {
+  return `${c.kind}:${c.id}`;
+}
+
+/** Local records plus everything new, with each conflict settled as chosen; unresolved conflicts keep the local copy. */
+export function applyMerge(local: DatasetRecords, plan: MergePlan, resolutions: Record<string, Resolution>): DatasetRecords {
+  const winners = new Map(
+    plan.conflicts.filter((c) => resolutions[conflictKey(c)] === 'incoming').map((c) => [conflictKey(c), c.incoming])
+  );
+  const pick = <T>(kind: RecordKind, records: T[], idOf: (r: T) => string): T[] =>
+    records.map((r) => (winners.get(conflictKey({ kind, id: idOf(r) })) as T | undefined) ?? r);
+  const settings = winners.get(conflictKey({ kind: 'settings', id: 'settings' })) as Partial<Settings> | undefined;
+  return {
+    participants: [...pick('participant', local.participants, (p) => p.participantId), ...plan.added.participants],
+    sessions: [...pick('session', local.sessions, (s) => s.sessionId), ...plan.added.sessions],
+    surveys: [...pick('survey', local.surveys, (r) => r.responseId), ...plan.added.surveys],
+    settings: settings ? { ...local.settings, ...settings } : local.settings,
+  };
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+// Key order is not meaningful in our records, so compare with keys sorted.
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]])) : v
+  );
+}
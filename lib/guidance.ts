@@ -0,0 +1,190 @@
+import type { Settings, Waypoint } from '@/context/AppContext';
+
+// Shared decision logic for every feedback condition. The screens only decide how a
+// GuidanceState is rendered (speech, vibration, pulses), never what it is.
+
+export type GeoFix = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  timestamp: number;
+};
+
+export type GuidanceDirection = 'left' | 'right';
+
+export type GuidanceBand = 'aligned' | 'slightly_off' | 'far_off';
+
+export type GuidanceTarget = {
+  waypointId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  /** Position in the route, and whether it is the last waypoint. */
+  index: number;
+  isFinal: boolean;
+};
+
+export type GuidanceState = {
+  target: GuidanceTarget;
+  heading: number;
+  targetBearing: number;
+  /** Signed error in degrees, positive => turn right (clockwise). */
+  errorDeg: number;
+  direction: GuidanceDirection;
+  band: GuidanceBand;
+  aligned: boolean;
+  distanceMeters: number;
+  /** Within the arrival radius of the target. */
+  arrived: boolean;
+  /** True only on the first state after arriving. */
+  justArrived: boolean;
+  timestamp: number;
+};
+
+export type GuidanceSettings = Pick<Settings, 'alignThresholdDeg' | 'arrivalRadiusM'> & {
+  target: GuidanceTarget | null;
+};
+
+export type GuidanceListener = (state: GuidanceState) => void;
+
+export type GuidanceEngine = {
+  updateHeading: (heading: number) => void;
+  updatePosition: (fix: GeoFix) => void;
+  setSettings: (settings: GuidanceSettings) => void;
+  subscribe: (listener: GuidanceListener) => () => void;
+  getState: () => GuidanceState | null;
+  reset: () => void;
+};
+
+// Errors up to this many degrees (beyond the alignment threshold) count as "slightly off".
+export const SLIGHTLY_OFF_DEG = 15;
+
+// Once arrived, the participant has to move this much further than the radius to "leave" again,
+// so GPS jitter at the edge of the radius does not repeat the arrival cue.
+export const ARRIVAL_HYSTERESIS = 1.5;
+
+const EARTH_RADIUS_M = 6371000;
+
+export function computeGuidance(
+  heading: number,
+  fix: GeoFix,
+  settings: GuidanceSettings,
+  previous: GuidanceState | null = null,
+  now: number = Date.now()
+): GuidanceState | null {
+  const { target } = settings;
+  if (!target) return null;
+  const targetBearing = bearingFromAToB(fix.latitude, fix.longitude, target.latitude, target.longitude);
+  const errorDeg = normalizeAngleDiff(heading, targetBearing);
+  const absErr = Math.abs(errorDeg);
+  const threshold = settings.alignThresholdDeg ?? 10;
+  const aligned = absErr <= threshold;
+  const distanceMeters = distanceBetween(fix.latitude, fix.longitude, target.latitude, target.longitude);
+  const radius = settings.arrivalRadiusM ?? 3;
+  const wasArrived = previous?.target.waypointId === target.waypointId && previous.arrived;
+  const arrived = distanceMeters <= (wasArrived ? radius * ARRIVAL_HYSTERESIS : radius);
+  return {
+    target,
+    heading,
+    targetBearing,
+    errorDeg,
+    direction: errorDeg > 0 ? 'right' : 'left',
+    band: aligned ? 'aligned' : absErr <= Math.max(threshold, SLIGHTLY_OFF_DEG) ? 'slightly_off' : 'far_off',
+    aligned,
+    distanceMeters,
+    arrived,
+    justArrived: arrived && !wasArrived,
+    timestamp: now,
+  };
+}
+
+export function routeTarget(route: Waypoint[], routeIndex: number): GuidanceTarget | null {
+  if (route.length === 0) return null;
+  const index = Math.max(0, Math.min(routeIndex, route.length - 1));
+  return { ...route[index], index, isFinal: index === route.length - 1 };
+}
+
+export function createGuidanceEngine(initialSettings: GuidanceSettings): GuidanceEngine {
+  let settings = initialSettings;
+  let heading: number | null = null;
+  let fix: GeoFix | null = null;
+  let state: GuidanceState | null = null;
+  const listeners = new Set<GuidanceListener>();
+
+  const recompute = () => {
+    if (heading == null || fix == null) return;
+    state = computeGuidance(heading, fix, settings, state);
+    if (!state) return;
+    const emitted = state;
+    listeners.forEach((l) => l(emitted));
+  };
+
+  return {
+    updateHeading: (h) => {
+      heading = h;
+      recompute();
+    },
+    updatePosition: (f) => {
+      fix = f;
+      recompute();
+    },
+    setSettings: (s) => {
+      settings = s;
+      recompute();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getState: () => state,
+    reset: () => {
+      heading = null;
+      fix = null;
+      state = null;
+    },
+  };
+}
+
+export function normalizeAngleDiff(currentDeg: number, targetDeg: number): number {
+  let diff = targetDeg - currentDeg; // positive => need to turn right (clockwise)
+  while (diff > 180) diff -= 360;
+  while (diff < -180) diff += 360;
+  return diff;
+}
+
+export function bearingFromAToB(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const toDeg = (r: number) => (r * 180) / Math.PI;
+  const φ1 = toRad(lat1);
+  const φ2 = toRad(lat2);
+  const Δλ = toRad(lon2 - lon1);
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  const θ = Math.atan2(y, x);
+  return (toDeg(θ) + 360) % 360;
+}
+
+export function distanceBetween(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  // Haversine great-circle distance in meters
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const φ1 = toRad(lat1);
+  const φ2 = toRad(lat2);
+  const Δφ = toRad(lat2 - lat1);
+  const Δλ = toRad(lon2 - lon1);
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function destinationPoint(lat: number, lon: number, bearingDeg: number, meters: number): { latitude: number; longitude: number } {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const toDeg = (r: number) => (r * 180) / Math.PI;
+  const δ = meters / EARTH_RADIUS_M;
+  const θ = toRad(bearingDeg);
+  const φ1 = toRad(lat);
+  const λ1 = toRad(lon);
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+  return { latitude: toDeg(φ2), longitude: ((toDeg(λ2) + 540) % 360) - 180 };
+}
@@ -0,0 +1,195 @@
+import { logCue } from '@/lib/cueLog';
+import * as Haptics from 'expo-haptics';
+import { Vibration } from 'react-native';
+
+// Named haptic cues. Screens ask for a cue by name and the player renders whatever sequence the
+// library holds for it, so encodings can be changed in Settings between pilot participants.
+
+export type ImpactStrength = 'light' | 'medium' | 'heavy';
+
+export type HapticStep =
+  | { kind: 'impact'; strength: ImpactStrength }
+  | { kind: 'notification'; type: 'success' | 'warning' | 'error' }
+  | { kind: 'vibrate'; durationMs: number }
+  | { kind: 'pause'; durationMs: number };
+
+export type HapticPattern = {
+  steps: HapticStep[];
+  /** Loop until stopped or replaced by another pattern. */
+  repeat?: boolean;
+};
+
+export type HapticPatternName =
+  | 'aligned'
+  | 'turn_left_near'
+  | 'turn_left_mid'
+  | 'turn_left_far'
+  | 'turn_right_near'
+  | 'turn_right_mid'
+  | 'turn_right_far'
+  | 'waypoint'
+  | 'arrival';
+
+/** Patterns edited in Settings; anything missing falls back to the defaults. */
+export type HapticPatternOverrides = Partial<Record<HapticPatternName, HapticPattern>>;
+
+const singlePulse = (strength: ImpactStrength): HapticPattern => ({ steps: [{ kind: 'impact', strength }] });
+const doublePulse = (strength: ImpactStrength): HapticPattern => ({
+  steps: [{ kind: 'impact', strength }, { kind: 'pause', durationMs: 120 }, { kind: 'impact', strength }],
+});
+
+export const DEFAULT_HAPTIC_PATTERNS: Record<HapticPatternName, HapticPattern> = {
+  aligned: { steps: [{ kind: 'vibrate', durationMs: 200 }, { kind: 'pause', durationMs: 50 }], repeat: true },
+  // Left is a single pulse, right a double pulse; closer to the target pulses harder.
+  turn_left_near: singlePulse('heavy'),
+  turn_left_mid: singlePulse('medium'),
+  turn_left_far: singlePulse('light'),
+  turn_right_near: doublePulse('heavy'),
+  turn_right_mid: doublePulse('medium'),
+  turn_right_far: doublePulse('light'),
+  waypoint: {
+    steps: [
+      { kind: 'notification', type: 'success' },
+      { kind: 'vibrate', durationMs: 400 },
+      { kind: 'pause', durationMs: 150 },
+      { kind: 'vibrate', durationMs: 400 },
+    ],
+  },
+  arrival: {
+    steps: [
+      { kind: 'notification', type: 'success' },
+      { kind: 'vibrate', durationMs: 400 },
+      { kind: 'pause', durationMs: 150 },
+      { kind: 'vibrate', durationMs: 400 },
+      { kind: 'pause', durationMs: 150 },
+      { kind: 'vibrate', durationMs: 400 },
+    ],
+  },
+};
+
+export const HAPTIC_PATTERN_NAMES = Object.keys(DEFAULT_HAPTIC_PATTERNS) as HapticPatternName[];
+
+const IMPACT_STYLES: Record<ImpactStrength, Haptics.ImpactFeedbackStyle> = {
+  light: Haptics.ImpactFeedbackStyle.Light,
+  medium: Haptics.ImpactFeedbackStyle.Medium,
+  heavy: Haptics.ImpactFeedbackStyle.Heavy,
+};
+
+const NOTIFICATION_TYPES = {
+  success: Haptics.NotificationFeedbackType.Success,
+  warning: Haptics.NotificationFeedbackType.Warning,
+  error: Haptics.NotificationFeedbackType.Error,
+} as const;
+
+// There is one motor, so there is one player: starting a pattern replaces the one playing.
+let timers: ReturnType<typeof setTimeout>[] = [];
+
+export function resolvePattern(name: HapticPatternName, overrides?: HapticPatternOverrides): HapticPattern {
+  return overrides?.[name] ?? DEFAULT_HAPTIC_PATTERNS[name];
+}
+
+function halt(): void {
+  timers.forEach(clearTimeout);
+  timers = [];
+  Vibration.cancel();
+}
+
+export function stopHaptics(): void {
+  halt();
+  logCue('vibrate_cancel');
+}
+
+export function playPattern(pattern: HapticPattern): void {
+  // Replacing a pattern is not logged as a cancel; the new pattern's cues follow straight away.
+  halt();
+  if (pattern.steps.length === 0) return;
+  // Loops of plain vibration are handed to the OS so they keep going without JS timers.
+  if (pattern.repeat && pattern.steps.every((s) => s.kind === 'vibrate' || s.kind === 'pause')) {
+    const timings = toVibrationArray(pattern.steps);
+    Vibration.vibrate(timings, true);
+    logCue('vibrate', `${timings.join('|')} repeat`);
+    return;
+  }
+  const total = schedule(pattern.steps);
+  if (pattern.repeat) {
+    const loop = () => {
+      timers = [];
+      const length = schedule(pattern.steps);
+      timers.push(setTimeout(loop, Math.max(length, 50)));
+    };
+    timers.push(setTimeout(loop, Math.max(total, 50)));
+  }
+}
+
+// Dynamic haptic encoding of a signed heading error: which pattern to pulse and how often.
+// Closer to the target => stronger pattern and smaller interval (higher frequency).
+export function directionalPulse(errorDeg: number, overrides?: HapticPatternOverrides): { name: HapticPatternName; intervalMs: number } {
+  const absErr = Math.abs(errorDeg);
+  const direction = errorDeg > 0 ? 'right' : 'left';
+  const name: HapticPatternName = `turn_${direction}_${absErr < 10 ? 'near' : absErr < 30 ? 'mid' : 'far'}`;
+  // Never start the next pulse before the current pattern has finished.
+  const intervalMs = Math.max(mapRange(absErr, 0, 180, 200, 1200), patternDurationMs(resolvePattern(name, overrides)));
+  return { name, intervalMs };
+}
+
+export function patternDurationMs(pattern: HapticPattern): number {
+  return pattern.steps.reduce((sum, s) => sum + (s.kind === 'vibrate' || s.kind === 'pause' ? s.durationMs : 0), 0);
+}
+
+function schedule(steps: HapticStep[]): number {
+  let offset = 0;
+  steps.forEach((step) => {
+    const at = offset;
+    switch (step.kind) {
+      case 'impact':
+        timers.push(
+          setTimeout(() => {
+            Haptics.impactAsync(IMPACT_STYLES[step.strength]);
+            logCue('impact', step.strength);
+          }, at)
+        );
+        break;
+      case 'notification':
+        timers.push(
+          setTimeout(() => {
+            Haptics.notificationAsync(NOTIFICATION_TYPES[step.type]);
+            logCue('notification', step.type);
+          }, at)
+        );
+        break;
+      case 'vibrate':
+        timers.push(
+          setTimeout(() => {
+            Vibration.vibrate(step.durationMs);
+            logCue('vibrate', String(step.durationMs));
+          }, at)
+        );
+        offset += step.durationMs;
+        break;
+      case 'pause':
+        offset += step.durationMs;
+        break;
+    }
+  });
+  return offset;
+}
+
+// Vibration.vibrate takes alternating [wait, vibrate, wait, vibrate, ...] durations.
+function toVibrationArray(steps: HapticStep[]): number[] {
+  const out: number[] = [];
+  steps.forEach((step) => {
+    if (step.kind !== 'vibrate' && step.kind !== 'pause') return;
+    const wantsVibrateSlot = step.kind === 'vibrate';
+    const nextIsVibrateSlot = out.length % 2 === 1;
+    if (wantsVibrateSlot === nextIsVibrateSlot) out.push(step.durationMs);
+    else if (wantsVibrateSlot) out.push(0, step.durationMs);
+    else out[out.length - 1] += step.durationMs;
+  });
+  return out;
+}
+
+function mapRange(value: number, inMin: number, inMax: number, outMin: number, outMax: number): number {
+  const clamped = Math.max(inMin, Math.min(inMax, value));
+  const norm = (clamped - inMin) / (inMax - inMin);
+  return outMin + norm * (outMax - outMin);
+}
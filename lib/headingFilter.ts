@@ -0,0 +1,60 @@
+// Circular smoothing for compass headings. Filtering the raw degrees would average 359° and 1°
+// to 180°, so both filters work on the heading's unit vector (as angleRange in app/modal.tsx
+// does) and convert back to degrees at the end.
+
+export type HeadingFilterType = 'none' | 'exponential' | 'kalman';
+
+export type HeadingFilterConfig = {
+  type: HeadingFilterType;
+  /** 0 passes readings through untouched; values towards 1 smooth more and lag more. */
+  strength: number;
+};
+
+export type HeadingFilter = {
+  next: (headingDeg: number) => number;
+  reset: () => void;
+};
+
+// Kalman process noise per sample; measurement noise is scaled from `strength`.
+const KALMAN_PROCESS_NOISE = 0.01;
+const KALMAN_MAX_MEASUREMENT_NOISE = 0.5;
+
+export function createHeadingFilter(config: HeadingFilterConfig): HeadingFilter {
+  const strength = Math.max(0, Math.min(0.95, config.strength));
+  let x: number | null = null;
+  let y: number | null = null;
+  // Kalman estimate variance, shared by both components since they see the same noise.
+  let p = 1;
+
+  const gain = (): number => {
+    if (config.type === 'exponential') return 1 - strength;
+    const r = strength * KALMAN_MAX_MEASUREMENT_NOISE;
+    p += KALMAN_PROCESS_NOISE;
+    const k = p / (p + r);
+    p *= 1 - k;
+    return k;
+  };
+
+  return {
+    next: (headingDeg) => {
+      if (config.type === 'none' || strength === 0) return headingDeg;
+      const rad = (headingDeg * Math.PI) / 180;
+      const zx = Math.cos(rad);
+      const zy = Math.sin(rad);
+      if (x == null || y == null) {
+        x = zx;
+        y = zy;
+      } else {
+        const k = gain();
+        x += k * (zx - x);
+        y += k * (zy - y);
+      }
+      return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+    },
+    reset: () => {
+      x = null;
+      y = null;
+      p = 1;
+    },
+  };
+}
@@ -0,0 +1,303 @@
+// Participant-facing strings, both on screen and spoken. Researcher tools stay in English.
+// Placeholders are written as {name} and filled by `translate`.
+
+export type Locale = 'en' | 'es' | 'ar';
+
+export const LOCALES: Locale[] = ['en', 'es', 'ar'];
+
+/** Each language in its own name, so a participant can recognise theirs. */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  ar: 'العربية',
+};
+
+/** Voice language passed to expo-speech for each locale. */
+export const SPEECH_LANGUAGES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  ar: 'ar-SA',
+};
+
+const en = {
+  'tab.audio': 'Audio',
+  'tab.haptic': 'Haptic',
+  'tab.haptic_dynamic': 'Haptic Dynamic',
+  'tab.sonification': 'Sonification',
+
+  'mode.audio': 'Audio',
+  'mode.static_haptic': 'Static Haptic',
+  'mode.dynamic_haptic': 'Dynamic Haptic',
+  'mode.sonification': 'Sonification',
+
+  'guidance.heading': 'Heading: {deg}°',
+  'guidance.distance': 'Distance: {distance}',
+  'guidance.arrived': '(arrived)',
+  'guidance.permission': 'Permission: {status}',
+  'guidance.gps': 'GPS: {status}',
+  'guidance.replaying': 'Replaying recorded sensor trace.',
+  'guidance.waypoint': 'Waypoint {index}/{total}: {name}',
+  'guidance.no_route': 'Add a waypoint in Settings to enable guidance.',
+
+  'audio.title': 'Audio: Face Target',
+  'audio.phrasing': 'Phrasing: {style}',
+  'audio.repeat': 'Repeat instruction',
+  'haptic.title': 'Haptic: Face Target',
+  'haptic.hint': 'Continuous vibration while within {deg}° of the target; stops when you turn away.',
+  'haptic_dynamic.title': 'Haptic Dynamic: Face Target',
+  'haptic_dynamic.hint': 'Closer to target → stronger and faster pulses.',
+  'sonification.title': 'Sonification: Face Target',
+  'sonification.hint': 'Tone comes from the side to turn towards; higher and faster as you get closer. Steady tone when aligned.',
+
+  'speech.facing': 'Facing target',
+  'speech.slightly_left': 'Turn slightly left',
+  'speech.slightly_right': 'Turn slightly right',
+  'speech.degrees_left': 'Turn left {deg} degrees to face target',
+  'speech.degrees_right': 'Turn right {deg} degrees to face target',
+  'speech.clock': "Target at {hour} o'clock",
+  'speech.clock_one': "Target at 1 o'clock",
+  'speech.straight_ahead': 'Straight ahead',
+  'speech.bear_left': 'Bear left',
+  'speech.bear_right': 'Bear right',
+  'speech.turn_left': 'Turn left',
+  'speech.turn_right': 'Turn right',
+  'speech.turn_around': 'Turn around',
+  'speech.arrived': 'You have arrived',
+  'speech.reached': 'Reached {name}',
+  'speech.repeat_prompt': 'Face the target. Turn until you hear {phrase}.',
+
+  'calibration.title': 'Compass Calibration',
+  'calibration.body': 'Move your phone in a gentle figure-eight motion until calibration completes automatically.',
+  'calibration.repeat': 'Repeat Instructions',
+  'calibration.skip': 'Skip',
+  'calibration.speech_intro': 'Compass calibration. Move your phone in a figure eight until calibration completes. You will hear a confirmation when done.',
+  'calibration.speech_repeat': 'Move your phone in a figure eight until calibration completes.',
+  'calibration.speech_done': 'Calibration complete',
+  'calibration.speech_skipped': 'Skipping calibration',
+
+  'survey.title': 'Post-Task Survey',
+  'survey.ease': 'Ease of use',
+  'survey.clarity': 'Clarity of guidance',
+  'survey.confidence': 'Spatial confidence',
+  'survey.comments': 'Additional comments',
+  'survey.placeholder': 'Type here',
+  'survey.submit': 'Submit Survey',
+  'survey.saved': 'Survey saved',
+  'survey.no_session': 'No session found',
+
+  'cue.turn_left': 'Turn left',
+  'cue.turn_right': 'Turn right',
+  'cue.aligned': 'Aligned',
+  'cue.far_off': 'Far off',
+
+  'training.title': 'Cue Training: {mode}',
+  'training.participant': 'Participant: {id}',
+  'training.no_participant': 'Participant: none selected (results will not be saved)',
+  'training.last_accuracy': 'Last training accuracy: {percent}%',
+  'training.learn': 'Learn the Cues',
+  'training.play': 'Play: {cue}',
+  'training.quiz': 'Quiz',
+  'training.score': 'Score: {correct}/{total} ({percent}%)',
+  'training.start': 'Start Quiz',
+  'training.retake': 'Retake Quiz',
+  'training.progress': 'Cue {index} of {total}',
+  'training.replay': 'Replay Cue',
+  'training.speech_intro': 'Quiz. Identify each cue.',
+  'training.speech_correct': 'Correct',
+  'training.speech_incorrect': 'Incorrect. That was {cue}',
+  'training.speech_complete': 'Quiz complete. {correct} of {total} correct.',
+
+  'search.time_up': 'Time is up. Please stop searching.',
+};
+
+export type StringKey = keyof typeof en;
+
+const es: Record<StringKey, string> = {
+  'tab.audio': 'Audio',
+  'tab.haptic': 'Háptico',
+  'tab.haptic_dynamic': 'Háptico dinámico',
+  'tab.sonification': 'Sonificación',
+
+  'mode.audio': 'Audio',
+  'mode.static_haptic': 'Háptico estático',
+  'mode.dynamic_haptic': 'Háptico dinámico',
+  'mode.sonification': 'Sonificación',
+
+  'guidance.heading': 'Rumbo: {deg}°',
+  'guidance.distance': 'Distancia: {distance}',
+  'guidance.arrived': '(llegada)',
+  'guidance.permission': 'Permiso: {status}',
+  'guidance.gps': 'GPS: {status}',
+  'guidance.replaying': 'Reproduciendo el registro de sensores.',
+  'guidance.waypoint': 'Punto {index}/{total}: {name}',
+  'guidance.no_route': 'Añada un punto de ruta en Ajustes para activar la guía.',
+
+  'audio.title': 'Audio: oriéntese al objetivo',
+  'audio.phrasing': 'Formulación: {style}',
+  'audio.repeat': 'Repetir instrucción',
+  'haptic.title': 'Háptico: oriéntese al objetivo',
+  'haptic.hint': 'Vibración continua mientras esté a menos de {deg}° del objetivo; se detiene al girar.',
+  'haptic_dynamic.title': 'Háptico dinámico: oriéntese al objetivo',
+  'haptic_dynamic.hint': 'Más cerca del objetivo → pulsos más fuertes y rápidos.',
+  'sonification.title': 'Sonificación: oriéntese al objetivo',
+  'sonification.hint': 'El tono suena del lado hacia el que debe girar; más agudo y rápido al acercarse. Tono continuo cuando está alineado.',
+
+  'speech.facing': 'Mirando al objetivo',
+  'speech.slightly_left': 'Gire un poco a la izquierda',
+  'speech.slightly_right': 'Gire un poco a la derecha',
+  'speech.degrees_left': 'Gire {deg} grados a la izquierda para mirar al objetivo',
+  'speech.degrees_right': 'Gire {deg} grados a la derecha para mirar al objetivo',
+  'speech.clock': 'Objetivo a las {hour}',
+  'speech.clock_one': 'Objetivo a la una',
+  'speech.straight_ahead': 'Recto',
+  'speech.bear_left': 'Ligeramente a la izquierda',
+  'speech.bear_right': 'Ligeramente a la derecha',
+  'speech.turn_left': 'Gire a la izquierda',
+  'speech.turn_right': 'Gire a la derecha',
+  'speech.turn_around': 'Dé la vuelta',
+  'speech.arrived': 'Ha llegado',
+  'speech.reached': 'Ha llegado a {name}',
+  'speech.repeat_prompt': 'Oriéntese al objetivo. Gire hasta oír {phrase}.',
+
+  'calibration.title': 'Calibración de la brújula',
+  'calibration.body': 'Mueva el teléfono suavemente en forma de ocho hasta que la calibración termine automáticamente.',
+  'calibration.repeat': 'Repetir instrucciones',
+  'calibration.skip': 'Omitir',
+  'calibration.speech_intro': 'Calibración de la brújula. Mueva el teléfono en forma de ocho hasta que termine la calibración. Oirá una confirmación al terminar.',
+  'calibration.speech_repeat': 'Mueva el teléfono en forma de ocho hasta que termine la calibración.',
+  'calibration.speech_done': 'Calibración completada',
+  'calibration.speech_skipped': 'Omitiendo la calibración',
+
+  'survey.title': 'Encuesta posterior a la tarea',
+  'survey.ease': 'Facilidad de uso',
+  'survey.clarity': 'Claridad de la guía',
+  'survey.confidence': 'Confianza espacial',
+  'survey.comments': 'Comentarios adicionales',
+  'survey.placeholder': 'Escriba aquí',
+  'survey.submit': 'Enviar encuesta',
+  'survey.saved': 'Encuesta guardada',
+  'survey.no_session': 'No se encontró ninguna sesión',
+
+  'cue.turn_left': 'Gire a la izquierda',
+  'cue.turn_right': 'Gire a la derecha',
+  'cue.aligned': 'Alineado',
+  'cue.far_off': 'Muy desviado',
+
+  'training.title': 'Entrenamiento de señales: {mode}',
+  'training.participant': 'Participante: {id}',
+  'training.no_participant': 'Participante: ninguno seleccionado (no se guardarán los resultados)',
+  'training.last_accuracy': 'Precisión del último entrenamiento: {percent}%',
+  'training.learn': 'Aprender las señales',
+  'training.play': 'Reproducir: {cue}',
+  'training.quiz': 'Prueba',
+  'training.score': 'Puntuación: {correct}/{total} ({percent}%)',
+  'training.start': 'Comenzar prueba',
+  'training.retake': 'Repetir prueba',
+  'training.progress': 'Señal {index} de {total}',
+  'training.replay': 'Repetir señal',
+  'training.speech_intro': 'Prueba. Identifique cada señal.',
+  'training.speech_correct': 'Correcto',
+  'training.speech_incorrect': 'Incorrecto. Era {cue}',
+  'training.speech_complete': 'Prueba terminada. {correct} de {total} correctas.',
+
+  'search.time_up': 'Se acabó el tiempo. Por favor, deje de buscar.',
+};
+
+const ar: Record<StringKey, string> = {
+  'tab.audio': 'صوت',
+  'tab.haptic': 'لمسي',
+  'tab.haptic_dynamic': 'لمسي ديناميكي',
+  'tab.sonification': 'نغمات',
+
+  'mode.audio': 'صوت',
+  'mode.static_haptic': 'لمسي ثابت',
+  'mode.dynamic_haptic': 'لمسي ديناميكي',
+  'mode.sonification': 'نغمات',
+
+  'guidance.heading': 'الاتجاه: {deg}°',
+  'guidance.distance': 'المسافة: {distance}',
+  'guidance.arrived': '(تم الوصول)',
+  'guidance.permission': 'الإذن: {status}',
+  'guidance.gps': 'GPS: {status}',
+  'guidance.replaying': 'جارٍ إعادة تشغيل بيانات المستشعرات المسجلة.',
+  'guidance.waypoint': 'النقطة {index}/{total}: {name}',
+  'guidance.no_route': 'أضف نقطة مسار في الإعدادات لتفعيل التوجيه.',
+
+  'audio.title': 'صوت: واجه الهدف',
+  'audio.phrasing': 'الصياغة: {style}',
+  'audio.repeat': 'كرر التعليمات',
+  'haptic.title': 'لمسي: واجه الهدف',
+  'haptic.hint': 'اهتزاز مستمر ما دمت ضمن {deg}° من الهدف، ويتوقف عندما تبتعد.',
+  'haptic_dynamic.title': 'لمسي ديناميكي: واجه الهدف',
+  'haptic_dynamic.hint': 'كلما اقتربت من الهدف ← نبضات أقوى وأسرع.',
+  'sonification.title': 'نغمات: واجه الهدف',
+  'sonification.hint': 'تأتي النغمة من الجهة التي يجب أن تستدير نحوها، وتصبح أعلى وأسرع كلما اقتربت. نغمة ثابتة عند المحاذاة.',
+
+  'speech.facing': 'أنت تواجه الهدف',
+  'speech.slightly_left': 'استدر قليلاً إلى اليسار',
+  'speech.slightly_right': 'استدر قليلاً إلى اليمين',
+  'speech.degrees_left': 'استدر إلى اليسار {deg} درجة لتواجه الهدف',
+  'speech.degrees_right': 'استدر إلى اليمين {deg} درجة لتواجه الهدف',
+  'speech.clock': 'الهدف عند الساعة {hour}',
+  'speech.clock_one': 'الهدف عند الساعة الواحدة',
+  'speech.straight_ahead': 'إلى الأمام مباشرة',
+  'speech.bear_left': 'مِل إلى اليسار',
+  'speech.bear_right': 'مِل إلى اليمين',
+  'speech.turn_left': 'استدر إلى اليسار',
+  'speech.turn_right': 'استدر إلى اليمين',
+  'speech.turn_around': 'استدر إلى الخلف',
+  'speech.arrived': 'لقد وصلت',
+  'speech.reached': 'وصلت إلى {name}',
+  'speech.repeat_prompt': 'واجه الهدف. استدر حتى تسمع {phrase}.',
+
+  'calibration.title': 'معايرة البوصلة',
+  'calibration.body': 'حرّك هاتفك بلطف على شكل الرقم ثمانية حتى تكتمل المعايرة تلقائياً.',
+  'calibration.repeat': 'كرر التعليمات',
+  'calibration.skip': 'تخطٍّ',
+  'calibration.speech_intro': 'معايرة البوصلة. حرّك هاتفك على شكل الرقم ثمانية حتى تكتمل المعايرة. ستسمع تأكيداً عند الانتهاء.',
+  'calibration.speech_repeat': 'حرّك هاتفك على شكل الرقم ثمانية حتى تكتمل المعايرة.',
+  'calibration.speech_done': 'اكتملت المعايرة',
+  'calibration.speech_skipped': 'تم تخطي المعايرة',
+
+  'survey.title': 'استبيان ما بعد المهمة',
+  'survey.ease': 'سهولة الاستخدام',
+  'survey.clarity': 'وضوح التوجيه',
+  'survey.confidence': 'الثقة المكانية',
+  'survey.comments': 'تعليقات إضافية',
+  'survey.placeholder': 'اكتب هنا',
+  'survey.submit': 'إرسال الاستبيان',
+  'survey.saved': 'تم حفظ الاستبيان',
+  'survey.no_session': 'لم يتم العثور على جلسة',
+
+  'cue.turn_left': 'استدر إلى اليسار',
+  'cue.turn_right': 'استدر إلى اليمين',
+  'cue.aligned': 'محاذٍ',
+  'cue.far_off': 'بعيد عن الهدف',
+
+  'training.title': 'التدريب على الإشارات: {mode}',
+  'training.participant': 'المشارك: {id}',
+  'training.no_participant': 'المشارك: لم يتم الاختيار (لن تُحفظ النتائج)',
+  'training.last_accuracy': 'دقة آخر تدريب: {percent}%',
+  'training.learn': 'تعلّم الإشارات',
+  'training.play': 'تشغيل: {cue}',
+  'training.quiz': 'اختبار',
+  'training.score': 'النتيجة: {correct}/{total} ({percent}%)',
+  'training.start': 'ابدأ الاختبار',
+  'training.retake': 'أعد الاختبار',
+  'training.progress': 'الإشارة {index} من {total}',
+  'training.replay': 'أعد تشغيل الإشارة',
+  'training.speech_intro': 'اختبار. تعرّف على كل إشارة.',
+  'training.speech_correct': 'صحيح',
+  'training.speech_incorrect': 'خطأ. كانت الإشارة {cue}',
+  'training.speech_complete': 'انتهى الاختبار. {correct} من {total} إجابات صحيحة.',
+
+  'search.time_up': 'انتهى الوقت. يرجى التوقف عن البحث.',
+};
+
+const CATALOGS: Record<Locale, Record<StringKey, string>> = { en, es, ar };
+
+export function translate(locale: Locale, key: StringKey, params?: Record<string, string | number>): string {
+  const template = CATALOGS[locale]?.[key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
@@ -0,0 +1,79 @@
+import type { Participant } from '@/context/AppContext';
+import type { Locale } from '@/lib/i18n';
+
+// Form state and validation shared by the participant edit screen and new-session screen.
+
+export const AGE_MIN = 18;
+export const AGE_MAX = 100;
+
+export const VISION_STATUSES = ['blind', 'low_vision', 'sighted_control'] as const;
+export const MOBILITY_AIDS = ['cane', 'guide_dog', 'none'] as const;
+export const GENDER_SUGGESTIONS = ['female', 'male', 'non-binary', 'prefer not to say'];
+
+export type ParticipantFields = Omit<Participant, 'participantId' | 'createdAt' | 'trainingResults' | 'conditionOrder' | 'counterbalanceRow'>;
+
+/** What the form holds while it is being edited; text inputs stay strings until validated. */
+export type ParticipantDraft = {
+  age: string;
+  gender: string;
+  visionStatus?: Participant['visionStatus'];
+  mobilityAid?: Participant['mobilityAid'];
+  language: Locale;
+};
+
+export type ParticipantErrors = Partial<Record<keyof ParticipantDraft, string>>;
+
+export function draftFromParticipant(p: Participant | undefined, defaultLanguage: Locale): ParticipantDraft {
+  return {
+    age: p?.age != null ? String(p.age) : '',
+    gender: p?.gender ?? '',
+    visionStatus: p?.visionStatus,
+    mobilityAid: p?.mobilityAid,
+    language: p?.language ?? defaultLanguage,
+  };
+}
+
+export function validateParticipant(draft: ParticipantDraft): { fields: ParticipantFields; errors: ParticipantErrors } {
+  const errors: ParticipantErrors = {};
+  const ageText = draft.age.trim();
+  const age = Number(ageText);
+  if (ageText === '') errors.age = 'Age is required.';
+  else if (!/^\d+$/.test(ageText)) errors.age = 'Age must be a whole number.';
+  else if (age < AGE_MIN || age > AGE_MAX) errors.age = `Age must be between ${AGE_MIN} and ${AGE_MAX}.`;
+  if (!draft.visionStatus) errors.visionStatus = 'Vision status is required.';
+  const gender = draft.gender.trim();
+  if (gender.length > 50) errors.gender = 'Gender must be 50 characters or fewer.';
+  return {
+    fields: {
+      age,
+      // An empty optional field clears it rather than storing "".
+      gender: gender || undefined,
+      visionStatus: draft.visionStatus,
+      mobilityAid: draft.mobilityAid,
+      language: draft.language,
+    },
+    errors,
+  };
+}
+
+export function hasErrors(errors: ParticipantErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
+
+export function describeParticipant(p: Participant): string {
+  return [p.participantId.slice(0, 8), p.age != null ? `age ${p.age}` : null, p.visionStatus?.replace('_', ' '), p.language?.toUpperCase()]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/** Case-insensitive match against the ID and every descriptive field. */
+export function matchesParticipantQuery(p: Participant, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [p.participantId, p.age, p.gender, p.visionStatus, p.mobilityAid, p.language]
+    .filter((v) => v != null)
+    .some((v) => {
+      const text = String(v).toLowerCase();
+      return text.includes(q) || text.replace(/_/g, ' ').includes(q);
+    });
+}
@@ -0,0 +1,107 @@
+import * as Location from 'expo-location';
+
+import type { GeoFix } from '@/lib/guidance';
+
+// One shared watchPositionAsync subscription for the whole app. Consumers acquire it while they
+// need it and read the cached fix synchronously instead of each polling the GPS.
+
+export type PositionStatus = 'waiting' | 'ok' | 'inaccurate' | 'stale';
+
+// Fixes with a worse horizontal accuracy than this are not used for guidance.
+const MAX_ACCURACY_M = 25;
+// A fix older than this no longer describes where the participant is.
+const STALE_AFTER_MS = 5000;
+const STATUS_CHECK_MS = 1000;
+
+let subscription: Location.LocationSubscription | null = null;
+let starting: Promise<void> | null = null;
+let refCount = 0;
+let latest: GeoFix | null = null;
+let lastRejectedAt = 0;
+let status: PositionStatus = 'waiting';
+let statusTimer: ReturnType<typeof setInterval> | null = null;
+const statusListeners = new Set<() => void>();
+
+export async function acquirePositionStream(): Promise<() => void> {
+  refCount += 1;
+  if (!subscription && !starting) starting = start();
+  try {
+    await starting;
+  } catch (e) {
+    refCount -= 1;
+    throw e;
+  }
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    refCount -= 1;
+    if (refCount === 0) stop();
+  };
+}
+
+/** Latest accepted fix, or null when there is none or it has gone stale. */
+export function getLatestFix(now: number = Date.now()): GeoFix | null {
+  if (!latest || now - latest.timestamp > STALE_AFTER_MS) return null;
+  return latest;
+}
+
+export function getPositionStatus(): PositionStatus {
+  return status;
+}
+
+export function subscribePositionStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+async function start(): Promise<void> {
+  try {
+    const sub = await Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.BestForNavigation, timeInterval: 500, distanceInterval: 0 },
+      (pos) => {
+        const accuracy = pos.coords.accuracy;
+        if (accuracy != null && accuracy > MAX_ACCURACY_M) {
+          lastRejectedAt = pos.timestamp;
+        } else {
+          latest = { latitude: pos.coords.latitude, longitude: pos.coords.longitude, accuracy, timestamp: pos.timestamp };
+        }
+        updateStatus();
+      }
+    );
+    // Everyone may have released while the watch was starting.
+    if (refCount === 0) {
+      sub.remove();
+      return;
+    }
+    subscription = sub;
+    statusTimer = setInterval(updateStatus, STATUS_CHECK_MS);
+  } finally {
+    starting = null;
+  }
+}
+
+function stop() {
+  subscription?.remove();
+  subscription = null;
+  if (statusTimer) clearInterval(statusTimer);
+  statusTimer = null;
+  latest = null;
+  lastRejectedAt = 0;
+  setStatus('waiting');
+}
+
+function updateStatus() {
+  const now = Date.now();
+  if (getLatestFix(now)) setStatus('ok');
+  else if (now - lastRejectedAt <= STALE_AFTER_MS) setStatus('inaccurate');
+  else setStatus(latest ? 'stale' : 'waiting');
+}
+
+function setStatus(next: PositionStatus) {
+  if (next === status) return;
+  status = next;
+  statusListeners.forEach((l) => l());
+}
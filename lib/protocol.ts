@@ -0,0 +1,102 @@
+import type { FeedbackMode } from '@/context/AppContext';
+
+// The study protocol for one participant and condition: a fixed sequence of steps walked in
+// order. Runs are persisted, so an interrupted run resumes at the step it was on. These are pure
+// transitions; creating the Session records for each step is left to the caller.
+
+export type ProtocolStep = 'red_dot' | 'break' | 'object_search' | 'survey';
+
+export const PROTOCOL_STEPS: ProtocolStep[] = ['red_dot', 'break', 'object_search', 'survey'];
+
+export const PROTOCOL_STEP_LABELS: Record<ProtocolStep, string> = {
+  red_dot: 'Red Dot Task',
+  break: 'Break',
+  object_search: 'Object Search',
+  survey: 'Survey',
+};
+
+export const PROTOCOL_STEP_ROUTES = {
+  red_dot: '/stages/red-dot',
+  break: '/break',
+  object_search: '/stages/object-search',
+  survey: '/survey',
+} as const satisfies Record<ProtocolStep, string>;
+
+/** Guidance screen for each condition, opened from the red dot step. */
+export const FEEDBACK_MODE_ROUTES = {
+  audio: '/audio',
+  static_haptic: '/haptic',
+  dynamic_haptic: '/haptic-dynamic',
+  sonification: '/sonification',
+} as const satisfies Record<FeedbackMode, string>;
+
+/** Steps whose results are recorded as a Session of the matching stage. */
+export const SESSION_STEPS = ['red_dot', 'object_search'] as const;
+export type SessionStep = (typeof SESSION_STEPS)[number];
+
+export function isSessionStep(step: ProtocolStep): step is SessionStep {
+  return (SESSION_STEPS as readonly ProtocolStep[]).includes(step);
+}
+
+export type StepStatus = 'pending' | 'active' | 'completed' | 'skipped';
+
+export type ProtocolStepRecord = {
+  step: ProtocolStep;
+  status: StepStatus;
+  startedAt?: number;
+  endedAt?: number;
+  /** Session holding this step's results, for red dot and object search. */
+  sessionId?: string;
+  /** Why the researcher skipped the step, when they overrode the protocol. */
+  skipReason?: string;
+};
+
+export type ProtocolRun = {
+  runId: string;
+  participantId: string;
+  feedbackMode: FeedbackMode;
+  steps: ProtocolStepRecord[];
+  /** Index of the active step; equals steps.length once the run is finished. */
+  currentIndex: number;
+  createdAt: number;
+  completedAt?: number;
+};
+
+export function createRun(runId: string, participantId: string, feedbackMode: FeedbackMode, steps: ProtocolStep[], now: number): ProtocolRun {
+  return {
+    runId,
+    participantId,
+    feedbackMode,
+    steps: steps.map((step, i) => ({ step, status: i === 0 ? 'active' : 'pending', startedAt: i === 0 ? now : undefined })),
+    currentIndex: 0,
+    createdAt: now,
+    completedAt: steps.length === 0 ? now : undefined,
+  };
+}
+
+export function currentStep(run: ProtocolRun): ProtocolStepRecord | null {
+  return run.steps[run.currentIndex] ?? null;
+}
+
+/** Ends the active step (as completed, or skipped with a reason) and activates the next one. */
+export function advanceRun(run: ProtocolRun, now: number, skip?: { reason: string }): ProtocolRun {
+  const current = currentStep(run);
+  if (!current) return run;
+  const nextIndex = run.currentIndex + 1;
+  const steps = run.steps.map((s, i): ProtocolStepRecord => {
+    if (i === run.currentIndex) return { ...s, status: skip ? 'skipped' : 'completed', endedAt: now, skipReason: skip?.reason };
+    if (i === nextIndex) return { ...s, status: 'active', startedAt: now };
+    return s;
+  });
+  return { ...run, steps, currentIndex: nextIndex, completedAt: nextIndex >= steps.length ? now : undefined };
+}
+
+/** Attaches a step's Session, so resuming the run finds the same record again. */
+export function attachSession(run: ProtocolRun, index: number, sessionId: string): ProtocolRun {
+  return { ...run, steps: run.steps.map((s, i) => (i === index ? { ...s, sessionId } : s)) };
+}
+
+/** The session from the run's guided step; surveys about the condition are filed against it. */
+export function conditionSessionId(run: ProtocolRun): string | undefined {
+  return run.steps.find((s) => s.step === 'red_dot')?.sessionId ?? run.steps.find((s) => s.sessionId)?.sessionId;
+}
@@ -0,0 +1,145 @@
+import type { FeedbackMode } from '@/context/AppContext';
+import type { ProtocolStep } from '@/lib/protocol';
+import type { MonitorSample } from '@/lib/trialMonitor';
+
+// Researcher remote control. Phones cannot accept incoming WebSocket connections, so the
+// participant device and the researcher console both connect out to a relay on the local
+// network (server/remote-relay.js), which pairs devices that join the same room. The relay only
+// admits devices that present the access code it was started with. One link per app: a device is
+// either the participant device or the console.
+
+export type RemoteRole = 'off' | 'participant' | 'console';
+
+export type RemoteCommand =
+  | { kind: 'start_stage' }
+  // `completed` only applies to the red dot task; left out, the final waypoint arrival decides.
+  | { kind: 'end_stage'; completed?: boolean }
+  | { kind: 'set_mode'; mode: FeedbackMode }
+  | { kind: 'set_target'; routeIndex: number }
+  | { kind: 'log_event'; event: 'checkpoint' | 'error' }
+  | { kind: 'undo_event' };
+
+/** What the console shows about the participant device; sent whenever it changes. */
+export type ParticipantStatus = {
+  participantId?: string;
+  feedbackMode?: FeedbackMode;
+  step?: ProtocolStep;
+  startedAt?: number;
+  checkpoints: number;
+  errors: number;
+  routeIndex: number;
+  waypoints: string[];
+};
+
+export type RemoteMessage =
+  | { type: 'command'; id: string; command: RemoteCommand }
+  | { type: 'ack'; id: string; ok: boolean; error?: string }
+  | { type: 'status'; status: ParticipantStatus }
+  // Guidance samples for the live monitor, batched since the last send.
+  | { type: 'monitor'; samples: MonitorSample[] }
+  // From the relay: whether a device of the other role is in the room.
+  | { type: 'peer'; connected: boolean };
+
+export type RemoteLinkStatus = {
+  role: RemoteRole;
+  socket: 'closed' | 'connecting' | 'open';
+  peerConnected: boolean;
+  /** On the console, the participant device's latest report. */
+  participant?: ParticipantStatus;
+};
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+
+let config: { url: string; room: string; secret: string; role: RemoteRole } | null = null;
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = RECONNECT_MIN_MS;
+let status: RemoteLinkStatus = { role: 'off', socket: 'closed', peerConnected: false };
+const statusListeners = new Set<() => void>();
+const messageListeners = new Set<(message: RemoteMessage) => void>();
+
+export function getRemoteStatus(): RemoteLinkStatus {
+  return status;
+}
+
+export function subscribeRemoteStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function onRemoteMessage(listener: (message: RemoteMessage) => void): () => void {
+  messageListeners.add(listener);
+  return () => {
+    messageListeners.delete(listener);
+  };
+}
+
+/** Connects (or reconnects with new settings); the link retries on its own until disconnected. */
+export function connectRemote(url: string, room: string, secret: string, role: Exclude<RemoteRole, 'off'>): void {
+  if (config && config.url === url && config.room === room && config.secret === secret && config.role === role) return;
+  disconnectRemote();
+  config = { url, room, secret, role };
+  reconnectDelay = RECONNECT_MIN_MS;
+  open();
+}
+
+export function disconnectRemote(): void {
+  config = null;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  const s = socket;
+  socket = null;
+  s?.close();
+  setStatus({ role: 'off', socket: 'closed', peerConnected: false });
+}
+
+export function sendRemote(message: RemoteMessage): boolean {
+  if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+  socket.send(JSON.stringify(message));
+  return true;
+}
+
+function open(): void {
+  if (!config) return;
+  const { url, room, secret, role } = config;
+  const separator = url.includes('?') ? '&' : '?';
+  const ws = new WebSocket(`${url}${separator}room=${encodeURIComponent(room)}&role=${role}&secret=${encodeURIComponent(secret)}`);
+  socket = ws;
+  setStatus({ role, socket: 'connecting', peerConnected: false });
+  ws.onopen = () => {
+    if (socket !== ws) return;
+    reconnectDelay = RECONNECT_MIN_MS;
+    setStatus({ ...status, socket: 'open' });
+  };
+  ws.onmessage = (event) => {
+    if (socket !== ws) return;
+    let message: RemoteMessage;
+    try {
+      message = JSON.parse(String(event.data));
+    } catch {
+      return;
+    }
+    if (message.type === 'peer') setStatus({ ...status, peerConnected: message.connected, participant: message.connected ? status.participant : undefined });
+    if (message.type === 'status') setStatus({ ...status, participant: message.status });
+    messageListeners.forEach((l) => l(message));
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setStatus({ ...status, socket: 'closed', peerConnected: false, participant: undefined });
+    // Keep trying while the researcher has the link turned on; the relay may come back.
+    reconnectTimer = setTimeout(open, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+  };
+  ws.onerror = () => {
+    // onclose follows and schedules the retry.
+  };
+}
+
+function setStatus(next: RemoteLinkStatus): void {
+  status = next;
+  statusListeners.forEach((l) => l());
+}
@@ -0,0 +1,63 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { GeoFix } from '@/lib/guidance';
+import type { HeadingReading } from '@/lib/sensors';
+
+export type SensorSample = ({ kind: 'heading' } & HeadingReading) | ({ kind: 'position' } & GeoFix);
+
+export type SensorTrace = {
+  sessionId: string;
+  startedAt: number;
+  samples: SensorSample[];
+};
+
+export type TraceRecorder = {
+  record: (sample: SensorSample) => void;
+  stop: () => Promise<void>;
+};
+
+// Traces are kept out of the main state blob: a few minutes at 10 Hz is far too much to
+// rewrite on every change. Each flush appends a chunk keyed by its first sample time.
+const TRACE_KEY_PREFIX = 'haptic-nav/trace/';
+const FLUSH_INTERVAL_MS = 5000;
+
+export function createTraceRecorder(sessionId: string): TraceRecorder {
+  let buffer: SensorSample[] = [];
+  let pending: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    if (buffer.length === 0) return pending;
+    const chunk = buffer;
+    buffer = [];
+    pending = pending
+      .catch(() => undefined)
+      .then(() => AsyncStorage.setItem(`${TRACE_KEY_PREFIX}${sessionId}/${chunk[0].timestamp}`, JSON.stringify(chunk)))
+      .catch((e) => console.warn('Failed to save sensor trace', e));
+    return pending;
+  };
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+
+  return {
+    record: (sample) => {
+      buffer.push(sample);
+    },
+    stop: () => {
+      clearInterval(timer);
+      return flush();
+    },
+  };
+}
+
+export async function loadTrace(sessionId: string): Promise<SensorTrace | null> {
+  const prefix = `${TRACE_KEY_PREFIX}${sessionId}/`;
+  const keys = (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(prefix));
+  if (keys.length === 0) return null;
+  keys.sort((a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length)));
+  const entries = await AsyncStorage.multiGet(keys);
+  const samples: SensorSample[] = [];
+  entries.forEach(([, raw]) => {
+    if (raw) samples.push(...(JSON.parse(raw) as SensorSample[]));
+  });
+  if (samples.length === 0) return null;
+  return { sessionId, startedAt: samples[0].timestamp, samples };
+}
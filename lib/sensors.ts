@@ -0,0 +1,99 @@
+import * as Location from 'expo-location';
+
+import type { GeoFix } from '@/lib/guidance';
+import { acquirePositionStream, getLatestFix } from '@/lib/positionStream';
+import type { SensorTrace } from '@/lib/sensorTrace';
+
+export type HeadingReading = {
+  trueHeading: number;
+  magHeading: number;
+  accuracy: number;
+  timestamp: number;
+};
+
+export type SensorHandlers = {
+  onHeading: (reading: HeadingReading) => void;
+  onPosition: (fix: GeoFix) => void;
+  /** Called when a finite source (e.g. a replayed trace) runs out of samples. */
+  onEnd?: () => void;
+};
+
+export type SensorSubscription = {
+  permission: 'granted' | 'denied' | 'undetermined';
+  stop: () => void;
+};
+
+export type SensorSource = {
+  start: (handlers: SensorHandlers) => Promise<SensorSubscription>;
+};
+
+export function pickHeading(reading: HeadingReading, useTrueNorth: boolean): number {
+  return useTrueNorth ? (reading.trueHeading ?? reading.magHeading ?? 0) : (reading.magHeading ?? reading.trueHeading ?? 0);
+}
+
+export const liveSensorSource: SensorSource = {
+  start: async (handlers) => {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') return { permission: status, stop: () => {} };
+    const releasePosition = await acquirePositionStream();
+    let lastFix: GeoFix | null = null;
+    let headingSub: Location.LocationSubscription;
+    try {
+      headingSub = await Location.watchHeadingAsync((h) => {
+        // Pick up the newest cached fix before the heading, so guidance for this heading uses it.
+        const fix = getLatestFix();
+        if (fix && fix !== lastFix) {
+          lastFix = fix;
+          handlers.onPosition(fix);
+        }
+        handlers.onHeading({ trueHeading: h.trueHeading, magHeading: h.magHeading, accuracy: h.accuracy, timestamp: Date.now() });
+      });
+    } catch (e) {
+      releasePosition();
+      throw e;
+    }
+    return {
+      permission: status,
+      stop: () => {
+        headingSub.remove();
+        releasePosition();
+      },
+    };
+  },
+};
+
+// Plays a recorded trace back with its original timing, as if it came from the sensors.
+export function createReplaySource(trace: SensorTrace): SensorSource {
+  return {
+    start: async (handlers) => {
+      let index = 0;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const origin = Date.now();
+      const emitNext = () => {
+        const sample = trace.samples[index];
+        if (!sample) {
+          handlers.onEnd?.();
+          return;
+        }
+        index += 1;
+        if (sample.kind === 'heading') {
+          const { kind, ...reading } = sample;
+          handlers.onHeading(reading);
+        } else {
+          const { kind, ...fix } = sample;
+          handlers.onPosition(fix);
+        }
+        const next = trace.samples[index];
+        const delay = next ? Math.max(0, next.timestamp - trace.startedAt - (Date.now() - origin)) : 0;
+        timer = setTimeout(emitNext, delay);
+      };
+      timer = setTimeout(emitNext, 0);
+      return {
+        permission: 'granted',
+        stop: () => {
+          if (timer) clearTimeout(timer);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { File } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+const UTIS: Record<string, string> = {
+  'text/csv': 'public.comma-separated-values-text',
+  'application/json': 'public.json',
+};
+
+/** Hands a saved file to the OS share sheet, or says where it is when sharing is unavailable. */
+export async function shareFile(file: File, mimeType: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    alert(`Sharing is not available on this device. The file is saved at ${file.uri}`);
+    return;
+  }
+  await Sharing.shareAsync(file.uri, { mimeType, UTI: UTIS[mimeType], dialogTitle: file.name });
+}
@@ -0,0 +1,49 @@
+import type { SensorSource } from '@/lib/sensors';
+
+// In-memory stand-in for the compass and GPS, driven by the on-screen simulator controls so the
+// guidance flow can be walked through on web or an emulator.
+
+export type SimulatorState = {
+  heading: number;
+  position: { latitude: number; longitude: number } | null;
+};
+
+let state: SimulatorState = { heading: 0, position: null };
+const listeners = new Set<() => void>();
+
+export function getSimulatorState(): SimulatorState {
+  return state;
+}
+
+export function updateSimulator(updates: Partial<SimulatorState>): void {
+  const next = { ...state, ...updates };
+  if (updates.heading != null) next.heading = ((updates.heading % 360) + 360) % 360;
+  state = next;
+  listeners.forEach((l) => l());
+}
+
+export function subscribeSimulator(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const simulatedSensorSource: SensorSource = {
+  start: async (handlers) => {
+    let last: SimulatorState | null = null;
+    const emit = () => {
+      const now = Date.now();
+      if (state.heading !== last?.heading) {
+        handlers.onHeading({ trueHeading: state.heading, magHeading: state.heading, accuracy: 3, timestamp: now });
+      }
+      if (state.position && state.position !== last?.position) {
+        handlers.onPosition({ ...state.position, accuracy: 5, timestamp: now });
+      }
+      last = state;
+    };
+    emit();
+    const unsubscribe = subscribeSimulator(emit);
+    return { permission: 'granted', stop: unsubscribe };
+  },
+};
@@ -0,0 +1,171 @@
+import { AudioContext, GainNode, OscillatorNode, StereoPannerNode } from 'react-native-audio-api';
+
+import { logCue } from '@/lib/cueLog';
+import type { GuidanceState } from '@/lib/guidance';
+
+// Non-speech audio encoding of the signed heading error. The tone sits on the side the
+// participant should turn towards, rises in pitch and beeps faster as they come round, and
+// becomes a steady tone with a chime once they are aligned.
+
+const MIN_FREQ_HZ = 220;
+const MAX_FREQ_HZ = 880;
+const ALIGNED_FREQ_HZ = 988;
+const BEEP_MS = 80;
+// Panning at 90° or more is full left/right.
+const FULL_PAN_DEG = 90;
+const VOLUME = 0.25;
+// The cue log records a change of pitch band rather than every beep: 8 bands over the two octaves.
+const PITCH_BANDS = 8;
+
+export type SonificationParams = {
+  frequencyHz: number;
+  /** -1 (left) to 1 (right). */
+  pan: number;
+  /** Time between beep onsets; null for a steady tone. */
+  intervalMs: number | null;
+};
+
+export function sonificationParams(errorDeg: number, aligned: boolean): SonificationParams {
+  if (aligned) return { frequencyHz: ALIGNED_FREQ_HZ, pan: 0, intervalMs: null };
+  const absErr = Math.abs(errorDeg);
+  return {
+    // Pitch is spaced logarithmically so equal turns sound like equal steps.
+    frequencyHz: MIN_FREQ_HZ * Math.pow(MAX_FREQ_HZ / MIN_FREQ_HZ, 1 - Math.min(absErr, 180) / 180),
+    pan: Math.max(-1, Math.min(1, errorDeg / FULL_PAN_DEG)),
+    intervalMs: mapRange(absErr, 0, 180, 150, 1000),
+  };
+}
+
+export type Sonifier = {
+  /** Renders the latest guidance; call on a steady timer so beeps keep coming. */
+  update: (g: Pick<GuidanceState, 'errorDeg' | 'aligned' | 'arrived'>) => void;
+  chime: (notes?: number[]) => void;
+  silence: () => void;
+  close: () => void;
+};
+
+export function createSonifier(): Sonifier {
+  const ctx = new AudioContext();
+  const osc: OscillatorNode = ctx.createOscillator();
+  const gain: GainNode = ctx.createGain();
+  const panner: StereoPannerNode = ctx.createStereoPanner();
+  osc.type = 'sine';
+  gain.gain.value = 0;
+  osc.connect(gain);
+  gain.connect(panner);
+  panner.connect(ctx.destination);
+  osc.start();
+
+  let lastBeep = 0;
+  let steady = false;
+  let wasAligned = false;
+  // What the cue log was last told: whether a tone is sounding, and in which band and side.
+  let loggedBand: string | null = null;
+
+  const logTone = (params: SonificationParams) => {
+    // A switch of side is a new cue too, even within the same pitch band.
+    const side = params.pan < 0 ? 'left' : params.pan > 0 ? 'right' : 'centre';
+    const band = params.intervalMs == null ? 'aligned' : `${pitchBand(params.frequencyHz)} ${side}`;
+    if (band === loggedBand) return;
+    const kind = loggedBand == null ? 'tone_on' : 'tone_band';
+    loggedBand = band;
+    logCue(kind, describeTone(band, params));
+  };
+
+  const logToneOff = () => {
+    if (loggedBand == null) return;
+    loggedBand = null;
+    logCue('tone_off');
+  };
+
+  const silence = () => {
+    const t = ctx.currentTime;
+    gain.gain.cancelScheduledValues(t);
+    gain.gain.setTargetAtTime(0, t, 0.01);
+    steady = false;
+  };
+
+  const chime = (notes = [1319, 1760]) => {
+    logCue('chime', notes.join('/'));
+    const t = ctx.currentTime;
+    notes.forEach((freq, i) => {
+      const tone = ctx.createOscillator();
+      const env = ctx.createGain();
+      const start = t + i * 0.12;
+      tone.frequency.value = freq;
+      env.gain.setValueAtTime(0, start);
+      env.gain.linearRampToValueAtTime(VOLUME, start + 0.01);
+      env.gain.linearRampToValueAtTime(0, start + 0.25);
+      tone.connect(env);
+      env.connect(ctx.destination);
+      tone.start(start);
+      tone.stop(start + 0.3);
+    });
+  };
+
+  const update: Sonifier['update'] = (g) => {
+    if (g.arrived) {
+      if (steady || lastBeep) silence();
+      lastBeep = 0;
+      logToneOff();
+      return;
+    }
+    if (g.aligned && !wasAligned) chime();
+    wasAligned = g.aligned;
+
+    const params = sonificationParams(g.errorDeg, g.aligned);
+    const { frequencyHz, pan, intervalMs } = params;
+    logTone(params);
+    const t = ctx.currentTime;
+    osc.frequency.setTargetAtTime(frequencyHz, t, 0.02);
+    panner.pan.setTargetAtTime(pan, t, 0.02);
+    if (intervalMs == null) {
+      if (!steady) {
+        gain.gain.cancelScheduledValues(t);
+        gain.gain.setTargetAtTime(VOLUME * 0.6, t, 0.02);
+        steady = true;
+      }
+      return;
+    }
+    if (steady) silence();
+    const now = Date.now();
+    if (now - lastBeep < intervalMs) return;
+    lastBeep = now;
+    gain.gain.cancelScheduledValues(t);
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(VOLUME, t + 0.005);
+    gain.gain.linearRampToValueAtTime(0, t + BEEP_MS / 1000);
+  };
+
+  return {
+    update,
+    chime,
+    silence: () => {
+      silence();
+      lastBeep = 0;
+      wasAligned = false;
+      logToneOff();
+    },
+    close: () => {
+      logToneOff();
+      osc.stop();
+      ctx.close();
+    },
+  };
+}
+
+function pitchBand(frequencyHz: number): number {
+  const position = Math.log(frequencyHz / MIN_FREQ_HZ) / Math.log(MAX_FREQ_HZ / MIN_FREQ_HZ);
+  return Math.max(0, Math.min(PITCH_BANDS - 1, Math.floor(position * PITCH_BANDS)));
+}
+
+function describeTone(band: string, { frequencyHz, pan, intervalMs }: SonificationParams): string {
+  const rhythm = intervalMs == null ? 'steady' : `beep every ${Math.round(intervalMs)} ms`;
+  return `band ${band} · ${Math.round(frequencyHz)} Hz · pan ${pan.toFixed(2)} · ${rhythm}`;
+}
+
+function mapRange(value: number, inMin: number, inMax: number, outMin: number, outMax: number): number {
+  const clamped = Math.max(inMin, Math.min(inMax, value));
+  const norm = (clamped - inMin) / (inMax - inMin);
+  return outMin + norm * (outMax - outMin);
+}
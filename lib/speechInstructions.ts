@@ -0,0 +1,61 @@
+import type { Settings } from '@/context/AppContext';
+import type { GuidanceState } from '@/lib/guidance';
+import { Locale, translate } from '@/lib/i18n';
+
+// What the audio condition says for a guidance state. Each style phrases the same three bands
+// (facing, slightly off, far off); the band edges are configurable so phrasings can be compared
+// on equal terms.
+
+export type SpeechStyle = 'degrees' | 'clock_face' | 'coarse';
+
+export type SpeechConfig = {
+  style: SpeechStyle;
+  /** Errors up to this many degrees are spoken as facing the target. */
+  facingDeg: number;
+  /** Errors up to this many degrees (beyond facing) are spoken as slightly off. */
+  slightDeg: number;
+};
+
+export const SPEECH_STYLES: SpeechStyle[] = ['degrees', 'clock_face', 'coarse'];
+
+export const SPEECH_STYLE_LABELS: Record<SpeechStyle, string> = {
+  degrees: 'Degrees',
+  clock_face: 'Clock Face',
+  coarse: 'Left / Right',
+};
+
+export function speechConfig(settings: Pick<Settings, 'speechStyle' | 'speechFacingDeg' | 'speechSlightDeg'>): SpeechConfig {
+  return { style: settings.speechStyle, facingDeg: settings.speechFacingDeg, slightDeg: settings.speechSlightDeg };
+}
+
+type SpeechBand = 'facing' | 'slight' | 'far';
+
+// Coarse phrasing tells the participant to turn around past this error.
+const BEHIND_DEG = 150;
+
+export function spokenInstruction(g: Pick<GuidanceState, 'direction' | 'errorDeg'>, config: SpeechConfig, locale: Locale = 'en'): string {
+  const absErr = Math.abs(g.errorDeg);
+  const band: SpeechBand = absErr <= config.facingDeg ? 'facing' : absErr <= Math.max(config.slightDeg, config.facingDeg) ? 'slight' : 'far';
+  switch (config.style) {
+    case 'clock_face': {
+      const hour = band === 'facing' ? 12 : clockHour(g.errorDeg);
+      return hour === 1 ? translate(locale, 'speech.clock_one') : translate(locale, 'speech.clock', { hour });
+    }
+    case 'coarse':
+      if (band === 'facing') return translate(locale, 'speech.straight_ahead');
+      if (band === 'slight') return translate(locale, `speech.bear_${g.direction}`);
+      return translate(locale, absErr >= BEHIND_DEG ? 'speech.turn_around' : `speech.turn_${g.direction}`);
+    default:
+      if (band === 'facing') return translate(locale, 'speech.facing');
+      if (band === 'slight') return translate(locale, `speech.slightly_${g.direction}`);
+      return translate(locale, `speech.degrees_${g.direction}`, { deg: Math.round(absErr) });
+  }
+}
+
+// The hour hand position of the target relative to straight ahead. An error that is not "facing"
+// never rounds to 12, so the participant still hears which side to turn towards.
+function clockHour(errorDeg: number): number {
+  const hour = ((Math.round(errorDeg / 30) % 12) + 12) % 12;
+  if (hour !== 0) return hour;
+  return errorDeg > 0 ? 1 : 11;
+}
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Participant, Session, Settings, SurveyResponse } from '@/context/AppContext';
+import type { ProtocolRun } from '@/lib/protocol';
+import { generateUuidV4 } from '@/lib/uuid';
+
+const STORAGE_KEY = 'haptic-nav/state';
+
+// Bump whenever a persisted type changes shape, and add a migration below.
+export const SCHEMA_VERSION = 2;
+
+export type PersistedState = {
+  participants: Participant[];
+  sessions: Session[];
+  surveys: SurveyResponse[];
+  settings: Partial<Settings>;
+  activeSessionId?: string;
+  routeIndex?: number;
+  protocolRuns: ProtocolRun[];
+  activeRunId?: string;
+};
+
+type Envelope = {
+  version: number;
+  data: unknown;
+};
+
+// Stored data as read back, before it is known to match any version's shape.
+type LegacyState = Record<string, unknown>;
+
+// migrations[n] upgrades data written at version n - 1 to version n.
+const migrations: Record<number, (data: LegacyState) => LegacyState> = {
+  // v2: the single targetLat/targetLon became an ordered route of waypoints.
+  2: (data) => {
+    const { targetLat, targetLon, ...settings } = asRecord(data.settings);
+    const route =
+      typeof targetLat === 'number' && typeof targetLon === 'number'
+        ? [{ waypointId: generateUuidV4(), name: 'Target', latitude: targetLat, longitude: targetLon }]
+        : [];
+    return { ...data, settings: { ...settings, route } };
+  },
+};
+
+// Per-launch flags: the compass should be recalibrated every time the app starts.
+const TRANSIENT_SETTINGS: (keyof Settings)[] = ['hasCalibrated', 'calibrationPrompted'];
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+export async function loadState(): Promise<PersistedState | null> {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (raw == null) return null;
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(raw);
+  } catch (e) {
+    await quarantine(raw, 'unparseable');
+    return null;
+  }
+  const version = isRecord(envelope) ? envelope.version : undefined;
+  if (!isRecord(envelope) || typeof version !== 'number' || version > SCHEMA_VERSION) {
+    // Written by a newer build (or not ours at all); keep a copy rather than overwrite it.
+    await quarantine(raw, `unsupported version ${String(version)}`);
+    return null;
+  }
+  return upgradeState(version, envelope.data);
+}
+
+/** Brings data written at `version` up to the current schema. Also used for imported datasets. */
+export function upgradeState(version: number, data: unknown): PersistedState {
+  let upgraded = asRecord(data);
+  for (let v = version + 1; v <= SCHEMA_VERSION; v += 1) {
+    const migrate = migrations[v];
+    if (migrate) upgraded = migrate(upgraded);
+  }
+  return normalize(upgraded);
+}
+
+/** Settings without the per-launch flags, as saved and exported. */
+export function persistentSettings(settings: Partial<Settings>): Partial<Settings> {
+  const copy = { ...settings };
+  TRANSIENT_SETTINGS.forEach((k) => delete copy[k]);
+  return copy;
+}
+
+export function saveState(state: PersistedState): Promise<void> {
+  const envelope: Envelope = { version: SCHEMA_VERSION, data: { ...state, settings: persistentSettings(state.settings) } };
+  // Chain writes so a slow write can never land after a newer one.
+  writeQueue = writeQueue
+    .catch(() => undefined)
+    .then(() => AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(envelope)));
+  return writeQueue;
+}
+
+// Only the containers are checked here; the fields of each record are trusted as written.
+function normalize(data: LegacyState): PersistedState {
+  return {
+    participants: records<Participant>(data.participants),
+    sessions: records<Session>(data.sessions),
+    surveys: records<SurveyResponse>(data.surveys),
+    settings: asRecord(data.settings) as Partial<Settings>,
+    activeSessionId: typeof data.activeSessionId === 'string' ? data.activeSessionId : undefined,
+    routeIndex: typeof data.routeIndex === 'number' ? data.routeIndex : 0,
+    protocolRuns: records<ProtocolRun>(data.protocolRuns),
+    activeRunId: typeof data.activeRunId === 'string' ? data.activeRunId : undefined,
+  };
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+function records<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value.filter(isRecord) as T[]) : [];
+}
+
+async function quarantine(raw: string, reason: string): Promise<void> {
+  const key = `${STORAGE_KEY}/quarantine-${Date.now()}`;
+  console.warn(`Stored study data is ${reason}; moved to ${key}`);
+  await AsyncStorage.setItem(key, raw);
+}
@@ -0,0 +1,213 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { Participant, Session, SurveyResponse } from '@/context/AppContext';
+
+// Optional upload of study records to a study server. Every new or changed record is queued;
+// the queue survives restarts and is sent in batches whenever the server can be reached, backing
+// off after each failure. A record counts as synced once the server has accepted its current
+// content. See server/sync-server.js for the reference receiver.
+
+export type SyncKind = 'participant' | 'session' | 'survey';
+
+export type SyncRecords = {
+  participants: Participant[];
+  sessions: Session[];
+  surveys: SurveyResponse[];
+};
+
+type QueueEntry = {
+  kind: SyncKind;
+  id: string;
+  fingerprint: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+type SyncState = {
+  queue: QueueEntry[];
+  /** Fingerprint of each record's content as last accepted by the server, keyed `kind:id`. */
+  synced: Record<string, string>;
+  lastSyncedAt?: number;
+};
+
+export type RecordSyncStatus = { state: 'synced' } | { state: 'pending' | 'failed'; attempts: number; nextAttemptAt: number; lastError?: string };
+
+export type SyncSnapshot = {
+  queued: number;
+  failed: number;
+  sending: boolean;
+  lastSyncedAt?: number;
+  lastError?: string;
+  status: (kind: SyncKind, id: string) => RecordSyncStatus | null;
+};
+
+const STORAGE_KEY = 'haptic-nav/sync';
+const BATCH_SIZE = 25;
+const REQUEST_TIMEOUT_MS = 10000;
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+let state: SyncState = { queue: [], synced: {} };
+let loading: Promise<void> | null = null;
+let sending = false;
+let snapshot: SyncSnapshot = makeSnapshot();
+const listeners = new Set<() => void>();
+
+export function subscribeSync(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSyncSnapshot(): SyncSnapshot {
+  return snapshot;
+}
+
+/** Delay before retry number `attempts`: doubling from 2 s up to 5 min, with some jitter. */
+export function retryDelayMs(attempts: number, random: () => number = Math.random): number {
+  const base = Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
+  return Math.round(base * (0.8 + 0.4 * random()));
+}
+
+/** Queues every record whose content differs from what the server last accepted. */
+export async function enqueueChanges(records: SyncRecords, now: number = Date.now()): Promise<void> {
+  await ensureLoaded();
+  let changed = false;
+  const queued = new Map(state.queue.map((e) => [keyOf(e.kind, e.id), e]));
+  eachRecord(records, (kind, id, record) => {
+    const key = keyOf(kind, id);
+    const fingerprint = fingerprintOf(record);
+    if (state.synced[key] === fingerprint) {
+      // Edited back to what the server already has.
+      if (queued.delete(key)) changed = true;
+      return;
+    }
+    if (queued.get(key)?.fingerprint === fingerprint) return;
+    queued.set(key, { kind, id, fingerprint, attempts: 0, nextAttemptAt: now });
+    changed = true;
+  });
+  if (!changed) return;
+  state = { ...state, queue: Array.from(queued.values()) };
+  commit();
+}
+
+/** Sends due entries to `url`. With `force`, entries waiting out a backoff are sent too. */
+export async function flushQueue(url: string, records: SyncRecords, options: { force?: boolean; now?: number } = {}): Promise<void> {
+  await ensureLoaded();
+  if (sending) return;
+  const now = options.now ?? Date.now();
+  const due = state.queue.filter((e) => options.force || e.nextAttemptAt <= now).slice(0, BATCH_SIZE);
+  if (due.length === 0) return;
+
+  const lookup = new Map<string, unknown>();
+  eachRecord(records, (kind, id, record) => lookup.set(keyOf(kind, id), record));
+  // Records deleted since they were queued have nothing left to send.
+  const gone = due.filter((e) => !lookup.has(keyOf(e.kind, e.id)));
+  const batch = due.filter((e) => lookup.has(keyOf(e.kind, e.id)));
+  if (gone.length > 0) {
+    state = { ...state, queue: state.queue.filter((e) => !gone.includes(e)) };
+    commit();
+  }
+  if (batch.length === 0) return;
+
+  sending = true;
+  notify();
+  let error: string | undefined;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sentAt: now, records: batch.map((e) => ({ kind: e.kind, id: e.id, data: lookup.get(keyOf(e.kind, e.id)) })) }),
+      signal: controller.signal,
+    });
+    if (!res.ok) error = `Server responded ${res.status}`;
+  } catch (e) {
+    error = e instanceof Error && e.name === 'AbortError' ? 'Request timed out' : 'Server unreachable';
+  } finally {
+    clearTimeout(timeout);
+    sending = false;
+  }
+
+  const sent = new Set(batch);
+  if (!error) {
+    const synced = { ...state.synced };
+    batch.forEach((e) => {
+      synced[keyOf(e.kind, e.id)] = e.fingerprint;
+    });
+    // An entry replaced while the request was in flight holds newer content and stays queued.
+    state = { queue: state.queue.filter((e) => !sent.has(e)), synced, lastSyncedAt: Date.now() };
+  } else {
+    const failedAt = Date.now();
+    state = {
+      ...state,
+      queue: state.queue.map((e) =>
+        sent.has(e) ? { ...e, attempts: e.attempts + 1, nextAttemptAt: failedAt + retryDelayMs(e.attempts + 1), lastError: error } : e
+      ),
+    };
+  }
+  commit();
+}
+
+function eachRecord(records: SyncRecords, visit: (kind: SyncKind, id: string, record: unknown) => void): void {
+  records.participants.forEach((p) => visit('participant', p.participantId, p));
+  records.sessions.forEach((s) => visit('session', s.sessionId, s));
+  records.surveys.forEach((r) => visit('survey', r.responseId, r));
+}
+
+function keyOf(kind: SyncKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+// djb2 over the JSON; only used to notice that a record changed, not for integrity.
+function fingerprintOf(record: unknown): string {
+  const text = JSON.stringify(record);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i += 1) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return `${text.length}:${(hash >>> 0).toString(36)}`;
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loading) {
+    loading = AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        const stored = raw ? JSON.parse(raw) : null;
+        if (stored && Array.isArray(stored.queue) && stored.synced && typeof stored.synced === 'object') state = stored;
+      })
+      .catch((e) => console.warn('Failed to load sync queue', e))
+      .then(() => notify());
+  }
+  return loading;
+}
+
+function commit(): void {
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state)).catch((e) => console.warn('Failed to save sync queue', e));
+  notify();
+}
+
+function notify(): void {
+  snapshot = makeSnapshot();
+  listeners.forEach((l) => l());
+}
+
+function makeSnapshot(): SyncSnapshot {
+  const byKey = new Map(state.queue.map((e) => [keyOf(e.kind, e.id), e]));
+  const failed = state.queue.filter((e) => e.attempts > 0);
+  return {
+    queued: state.queue.length,
+    failed: failed.length,
+    sending,
+    lastSyncedAt: state.lastSyncedAt,
+    lastError: failed[0]?.lastError,
+    status: (kind, id) => {
+      const entry = byKey.get(keyOf(kind, id));
+      if (entry) {
+        return { state: entry.attempts > 0 ? 'failed' : 'pending', attempts: entry.attempts, nextAttemptAt: entry.nextAttemptAt, lastError: entry.lastError };
+      }
+      return state.synced[keyOf(kind, id)] ? { state: 'synced' } : null;
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import * as Speech from 'expo-speech';
+
+import type { FeedbackMode, Settings } from '@/context/AppContext';
+import { logCue } from '@/lib/cueLog';
+import type { GuidanceState } from '@/lib/guidance';
+import { directionalPulse, playPattern, resolvePattern, stopHaptics } from '@/lib/hapticPatterns';
+import { Locale, SPEECH_LANGUAGES } from '@/lib/i18n';
+import { createSonifier } from '@/lib/sonification';
+import { speechConfig, spokenInstruction } from '@/lib/speechInstructions';
+
+// The cue vocabulary participants learn before a trial, rendered exactly as the feedback screens
+// render it for a representative heading error.
+
+export type TrainingCue = 'turn_left' | 'turn_right' | 'aligned' | 'far_off';
+
+// How long a haptic or tone cue is demonstrated for.
+const DEMO_MS = 3000;
+
+const EXAMPLES: Record<TrainingCue, Pick<GuidanceState, 'band' | 'direction' | 'errorDeg'>> = {
+  turn_left: { band: 'slightly_off', direction: 'left', errorDeg: -14 },
+  turn_right: { band: 'slightly_off', direction: 'right', errorDeg: 14 },
+  aligned: { band: 'aligned', direction: 'right', errorDeg: 0 },
+  far_off: { band: 'far_off', direction: 'right', errorDeg: 120 },
+};
+
+/** Cues the mode can actually tell apart: static haptics only signal "aligned" or nothing. */
+export function cuesForMode(mode: FeedbackMode): TrainingCue[] {
+  return mode === 'static_haptic' ? ['aligned', 'far_off'] : ['turn_left', 'turn_right', 'aligned', 'far_off'];
+}
+
+export type TrainingCueSettings = Pick<Settings, 'hapticPatterns' | 'speechStyle' | 'speechFacingDeg' | 'speechSlightDeg'>;
+
+/** Renders a cue in the given mode; the returned function stops it early. */
+export function playTrainingCue(mode: FeedbackMode, cue: TrainingCue, settings: TrainingCueSettings, locale: Locale = 'en'): () => void {
+  const example = EXAMPLES[cue];
+  const patterns = settings.hapticPatterns;
+  if (mode === 'audio') {
+    const text = spokenInstruction(example, speechConfig(settings), locale);
+    Speech.speak(text, { language: SPEECH_LANGUAGES[locale], rate: 1.0 });
+    logCue('speech', text);
+    return () => {
+      Speech.stop();
+      logCue('speech_stop');
+    };
+  }
+  if (mode === 'sonification') {
+    const sonifier = createSonifier();
+    const sample = { errorDeg: example.errorDeg, aligned: example.band === 'aligned', arrived: false };
+    const timer = setInterval(() => sonifier.update(sample), 100);
+    let closed = false;
+    const stop = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(timer);
+      clearTimeout(end);
+      sonifier.close();
+    };
+    const end = setTimeout(stop, DEMO_MS);
+    return stop;
+  }
+  if (cue === 'aligned') {
+    playPattern(resolvePattern('aligned', patterns));
+  } else if (mode === 'dynamic_haptic') {
+    const { name, intervalMs } = directionalPulse(example.errorDeg, patterns);
+    const pulse = () => playPattern(resolvePattern(name, patterns));
+    pulse();
+    const timer = setInterval(pulse, intervalMs);
+    const end = setTimeout(() => clearInterval(timer), DEMO_MS);
+    return () => {
+      clearInterval(timer);
+      clearTimeout(end);
+      stopHaptics();
+    };
+  }
+  // Static haptics are silent whenever the participant is not aligned.
+  const end = setTimeout(stopHaptics, DEMO_MS);
+  return () => {
+    clearTimeout(end);
+    stopHaptics();
+  };
+}
@@ -0,0 +1,88 @@
+import type { GuidanceState } from '@/lib/guidance';
+
+// Rolling record of what guidance is doing, for the researcher's live monitor. Samples come from
+// this device's guidance engine (the same states the feedback screens render) or, on a remote
+// console, from the participant device over the remote link.
+
+export type MonitorSample = {
+  at: number;
+  heading: number;
+  targetBearing: number;
+  errorDeg: number;
+  aligned: boolean;
+  distanceMeters: number;
+  /** Horizontal accuracy of the latest position fix, when the source reports one. */
+  accuracy: number | null;
+  target: string;
+};
+
+export type MonitorSnapshot = {
+  samples: MonitorSample[];
+  /** Local time the latest sample arrived, which on a console differs from the sample's own clock. */
+  receivedAt?: number;
+};
+
+// Guidance updates with every compass reading; a few points a second is plenty to draw.
+const MIN_SAMPLE_INTERVAL_MS = 200;
+export const MONITOR_WINDOW_MS = 2 * 60 * 1000;
+
+let snapshot: MonitorSnapshot = { samples: [] };
+let accuracy: number | null = null;
+const listeners = new Set<() => void>();
+
+export function subscribeMonitor(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getMonitorSnapshot(): MonitorSnapshot {
+  return snapshot;
+}
+
+/** Accuracy of the position fix guidance last used; attached to the samples that follow. */
+export function noteFixAccuracy(value: number | null | undefined): void {
+  accuracy = value ?? null;
+}
+
+export function recordGuidance(state: GuidanceState): void {
+  const last = snapshot.samples[snapshot.samples.length - 1];
+  if (last && state.timestamp - last.at < MIN_SAMPLE_INTERVAL_MS && last.aligned === state.aligned) return;
+  // A heading and a position update can land in the same millisecond. The first sample stays (it
+  // may already have gone to the console), so sample times stay strictly increasing for the
+  // remote link to batch on.
+  if (last && state.timestamp <= last.at) return;
+  append([
+    {
+      at: state.timestamp,
+      heading: state.heading,
+      targetBearing: state.targetBearing,
+      errorDeg: state.errorDeg,
+      aligned: state.aligned,
+      distanceMeters: state.distanceMeters,
+      accuracy,
+      target: state.target.name,
+    },
+  ]);
+}
+
+/** Adds samples received from another device. */
+export function pushSamples(samples: MonitorSample[]): void {
+  const lastAt = snapshot.samples[snapshot.samples.length - 1]?.at ?? -Infinity;
+  append(samples.filter((s) => s.at > lastAt));
+}
+
+export function clearMonitor(): void {
+  accuracy = null;
+  snapshot = { samples: [] };
+  listeners.forEach((l) => l());
+}
+
+function append(samples: MonitorSample[]): void {
+  if (samples.length === 0) return;
+  const all = [...snapshot.samples, ...samples];
+  const cutoff = all[all.length - 1].at - MONITOR_WINDOW_MS;
+  snapshot = { samples: all.filter((s) => s.at >= cutoff), receivedAt: Date.now() };
+  listeners.forEach((l) => l());
+}
@@ -0,0 +1,23 @@
+export function generateUuidV4(): string {
+  // RFC4122 version 4 compliant UUID generator without dependencies
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i += 1) {
+    bytes[i] = Math.floor(Math.random() * 256);
+  }
+  // Set version and variant bits
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const toHex = (n: number) => n.toString(16).padStart(2, '0');
+  const hex = Array.from(bytes, toHex).join('');
+  return (
+    hex.substring(0, 8) +
+    '-' +
+    hex.substring(8, 12) +
+    '-' +
+    hex.substring(12, 16) +
+    '-' +
+    hex.substring(16, 20) +
+    '-' +
+    hex.substring(20)
+  );
+}
@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+// Relay for researcher remote control. The participant device and the researcher console both
+// connect here (phones cannot accept incoming connections) with
+// ?room=<name>&role=<role>&secret=<access code>, and every message from one role is passed to the
+// other role in the same room. Each side is told when the other joins or leaves. Devices without
+// the access code are turned away, since a participant device obeys whatever arrives in its room.
+// Plain WebSocket over Node's http module, no dependencies.
+//
+//   node server/remote-relay.js [--port 8788] [--secret <access code>]
+//
+// Without --secret (or REMOTE_RELAY_SECRET) a random access code is made up and printed. Then set
+// the relay in the app's Remote Control screen to ws://<laptop-ip>:8788, with the access code, on
+// both devices.
+
+const crypto = require('crypto');
+const http = require('http');
+
+const ROLES = ['participant', 'console'];
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 1024 * 1024;
+
+const args = process.argv.slice(2);
+const arg = (name) => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+const port = Number(arg('--port') || process.env.PORT || 8788);
+const secret = arg('--secret') || process.env.REMOTE_RELAY_SECRET || crypto.randomBytes(4).toString('hex');
+const secretDigest = digest(secret);
+
+/** room -> role -> set of sockets */
+const rooms = new Map();
+
+function digest(text) {
+  return crypto.createHash('sha256').update(String(text)).digest();
+}
+
+// Compares digests so the check takes the same time whatever the guess.
+function hasSecret(candidate) {
+  return candidate != null && crypto.timingSafeEqual(digest(candidate), secretDigest);
+}
+
+function peersOf(room, role) {
+  const other = role === 'participant' ? 'console' : 'participant';
+  return rooms.get(room)?.get(other) ?? new Set();
+}
+
+function frame(text) {
+  const payload = Buffer.from(text, 'utf8');
+  const len = payload.length;
+  const header = len < 126 ? Buffer.from([0x81, len]) : len < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  if (len >= 126 && len < 65536) {
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else if (len >= 65536) {
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function sendText(socket, text) {
+  if (!socket.destroyed) socket.write(frame(text));
+}
+
+function announce(room, role, connected) {
+  peersOf(room, role).forEach((peer) => sendText(peer, JSON.stringify({ type: 'peer', connected })));
+}
+
+// Parses as many complete client frames as the buffer holds; returns what is left over.
+function readFrames(buffer, onFrame) {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let len = buffer[1] & 0x7f;
+    let offset = 2;
+    if (len === 126) {
+      if (buffer.length < 4) break;
+      len = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (len === 127) {
+      if (buffer.length < 10) break;
+      len = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (len > MAX_FRAME_BYTES) throw new Error('Frame too large');
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + len) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + len));
+    if (masked) {
+      for (let j = 0; j < payload.length; j += 1) payload[j] ^= buffer[maskOffset + (j % 4)];
+    }
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + len);
+  }
+  return buffer;
+}
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  const summary = {};
+  rooms.forEach((roles, room) => {
+    summary[room] = Object.fromEntries(ROLES.map((r) => [r, roles.get(r)?.size ?? 0]));
+  });
+  res.end(JSON.stringify(summary));
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url, 'http://relay');
+  const room = url.searchParams.get('room');
+  const role = url.searchParams.get('role');
+  const key = req.headers['sec-websocket-key'];
+  if (!room || !ROLES.includes(role) || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  if (!hasSecret(url.searchParams.get('secret'))) {
+    console.warn(`Refused a ${role} without the access code for room "${room}"`);
+    socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n'));
+
+  if (!rooms.has(room)) rooms.set(room, new Map(ROLES.map((r) => [r, new Set()])));
+  const members = rooms.get(room).get(role);
+  members.add(socket);
+  console.log(`${role} joined room "${room}"`);
+  // Tell the newcomer whether the other side is already here, and the other side that it arrived.
+  sendText(socket, JSON.stringify({ type: 'peer', connected: peersOf(room, role).size > 0 }));
+  announce(room, role, true);
+
+  let pending = Buffer.alloc(0);
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    members.delete(socket);
+    console.log(`${role} left room "${room}"`);
+    if (members.size === 0) announce(room, role, false);
+    if (ROLES.every((r) => rooms.get(room)?.get(r)?.size === 0)) rooms.delete(room);
+    socket.destroy();
+  };
+
+  socket.on('data', (chunk) => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x1) {
+          const text = payload.toString('utf8');
+          peersOf(room, role).forEach((peer) => sendText(peer, text));
+        } else if (opcode === 0x8) {
+          if (!socket.destroyed) socket.write(Buffer.from([0x88, 0]));
+          close();
+        } else if (opcode === 0x9) {
+          if (!socket.destroyed) socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+        }
+      });
+    } catch (e) {
+      console.warn(`Dropping ${role} in room "${room}": ${e.message}`);
+      close();
+    }
+  });
+  // The http server keeps half-open sockets, so a client hanging up only shows as 'end'.
+  socket.on('end', close);
+  socket.on('close', close);
+  socket.on('error', close);
+});
+
+server.listen(port, () => {
+  console.log(`Remote control relay listening on port ${port}`);
+  console.log(`Access code: ${secret}`);
+});
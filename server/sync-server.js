@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+// Reference receiver for the app's study uploads, for running on a laptop during sessions.
+// Accepts POST /records with { sentAt, records: [{ kind, id, data }] } and keeps the latest
+// copy of each record in one JSON file per kind under the data directory. No dependencies.
+//
+//   node server/sync-server.js [--port 8787] [--dir ./sync-data]
+//
+// Then set the study server in the app's Settings to http://<laptop-ip>:8787/records.
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const KINDS = ['participant', 'session', 'survey'];
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+const port = Number(option('port', process.env.PORT || 8787));
+const dir = path.resolve(option('dir', process.env.SYNC_DATA_DIR || 'sync-data'));
+
+fs.mkdirSync(dir, { recursive: true });
+
+const fileFor = (kind) => path.join(dir, `${kind}s.json`);
+
+function load(kind) {
+  try {
+    return JSON.parse(fs.readFileSync(fileFor(kind), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves half a file behind.
+function save(kind, records) {
+  const file = fileFor(kind);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(records, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+const store = Object.fromEntries(KINDS.map((k) => [k, load(k)]));
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The web build posts from another origin.
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function accept(payload) {
+  if (!payload || !Array.isArray(payload.records)) return { error: 'Expected { records: [...] }' };
+  const invalid = payload.records.filter((r) => !KINDS.includes(r && r.kind) || typeof r.id !== 'string' || !r.data);
+  if (invalid.length > 0) return { error: `${invalid.length} record(s) lack a known kind, an id or data` };
+  const touched = new Set();
+  payload.records.forEach((r) => {
+    store[r.kind][r.id] = { receivedAt: Date.now(), data: r.data };
+    touched.add(r.kind);
+  });
+  touched.forEach((kind) => save(kind, store[kind]));
+  return { accepted: payload.records.length };
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (req.method === 'GET' && (req.url === '/' || req.url === '/records')) {
+    return send(res, 200, Object.fromEntries(KINDS.map((k) => [`${k}s`, Object.keys(store[k]).length])));
+  }
+  if (req.method !== 'POST' || req.url !== '/records') return send(res, 404, { error: 'Not found' });
+
+  const chunks = [];
+  let size = 0;
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      send(res, 413, { error: 'Payload too large' });
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (res.writableEnded) return;
+    let payload;
+    try {
+      payload = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      return send(res, 400, { error: 'Body is not JSON' });
+    }
+    const result = accept(payload);
+    if (result.error) return send(res, 400, result);
+    console.log(`${new Date().toISOString()} accepted ${result.accepted} record(s)`);
+    send(res, 200, result);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Study sync server listening on port ${port}, saving to ${dir}`);
+});